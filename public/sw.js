@@ -0,0 +1,136 @@
+// Offline support for navigation: Mapbox tiles are served cache-first (and can
+// be pre-cached along a route), style assets stale-while-revalidate, and app
+// pages network-first so a reload in a tunnel still opens the app.
+
+const TILE_CACHE = 'tumaps-tiles-v1';
+const STYLE_CACHE = 'tumaps-styles-v1';
+const APP_CACHE = 'tumaps-app-v1';
+const MAX_TILE_ENTRIES = 5000;
+const TRIM_EVERY = 100; // tiles cached while browsing between trims
+const PRECACHE_CONCURRENCY = 6;
+
+const MAPBOX_HOSTS = /^(api|[a-d]\.tiles)\.mapbox\.com$/;
+
+function isTileRequest(url) {
+  return MAPBOX_HOSTS.test(url.hostname) && /^\/(v4|raster\/v1)\//.test(url.pathname);
+}
+
+function isStyleRequest(url) {
+  return url.hostname === 'api.mapbox.com' && /^\/(styles|fonts)\/v1\//.test(url.pathname);
+}
+
+// Tile URLs differ by subdomain, sku and token between sessions; the path alone identifies a tile
+function tileCacheKey(url) {
+  return 'https://api.mapbox.com' + url.pathname;
+}
+
+let tilesSinceTrim = 0;
+
+async function cacheFirstTile(event) {
+  const key = tileCacheKey(new URL(event.request.url));
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+
+  const response = await fetch(event.request);
+  if (response.ok) {
+    // Listing thousands of keys is slow, so browsing only trims now and then
+    event.waitUntil(
+      cache.put(key, response.clone()).then(() => {
+        if (++tilesSinceTrim >= TRIM_EVERY) return trimTileCache();
+      })
+    );
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(STYLE_CACHE);
+  const cached = await cache.match(request, { ignoreSearch: true });
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+
+  return cached || network;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+let pendingTrim = null;
+
+// Cache keys come back in insertion order, so the oldest tiles go first.
+// Overlapping calls share one pass.
+function trimTileCache() {
+  tilesSinceTrim = 0;
+  pendingTrim ??= (async () => {
+    const cache = await caches.open(TILE_CACHE);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILE_ENTRIES)).map(key => cache.delete(key)));
+  })().finally(() => {
+    pendingTrim = null;
+  });
+  return pendingTrim;
+}
+
+async function precacheTiles(urls) {
+  const cache = await caches.open(TILE_CACHE);
+  const queue = [...urls];
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const url = new URL(queue.shift());
+      const key = tileCacheKey(url);
+      if (await cache.match(key)) continue;
+
+      try {
+        const response = await fetch(url);
+        if (response.ok) await cache.put(key, response);
+      } catch (error) {
+        // Offline already or a missing tile; the rest may still succeed
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: PRECACHE_CONCURRENCY }, worker));
+  await trimTileCache();
+}
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (isTileRequest(url)) {
+    event.respondWith(cacheFirstTile(event));
+  } else if (isStyleRequest(url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  } else if (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'precache-tiles') {
+    event.waitUntil(precacheTiles(event.data.urls));
+  }
+});
@@ -0,0 +1,31 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getCacheStats } from '@/lib/response-cache';
+import { createRateLimiter } from '@/lib/server/rate-limit';
+import { enforceRateLimit } from '@/lib/server/mapbox-proxy';
+
+// Server-only; the endpoint answers 404 while it is unset
+const CACHE_STATS_TOKEN = process.env.CACHE_STATS_TOKEN || '';
+const limiter = createRateLimiter({ limit: 10, windowMs: 60 * 1000 });
+
+function hasValidToken(request: NextRequest): boolean {
+  const given = Buffer.from(request.headers.get('x-cache-stats-token') ?? '');
+  const expected = Buffer.from(CACHE_STATS_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Hit/miss counters of this server instance's response caches, for dashboards,
+// which send the CACHE_STATS_TOKEN secret in the x-cache-stats-token header
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request, limiter);
+  if (limited) return limited;
+
+  if (!CACHE_STATS_TOKEN) {
+    return NextResponse.json({ message: 'Not found' }, { status: 404 });
+  }
+  if (!hasValidToken(request)) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json(getCacheStats(), { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { RouteExclusion } from '@/types/navigation';
+import { supportedExclusions } from '@/lib/route-options';
+import { directionsCacheKey } from '@/lib/response-cache';
+import { createRateLimiter } from '@/lib/server/rate-limit';
+import {
+  createProxyCache,
+  enforceRateLimit,
+  invalidInput,
+  lngLatSchema,
+  proxyMapbox,
+} from '@/lib/server/mapbox-proxy';
+
+// Five minutes; traffic makes older routes misleading
+const cache = createProxyCache('server:directions', 5 * 60);
+const limiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+const querySchema = z
+  .object({
+    // Origin, stops and destination, as Mapbox takes them: "lng,lat;lng,lat"
+    coordinates: z
+      .string()
+      .transform(value => value.split(';'))
+      .pipe(z.array(lngLatSchema).min(2).max(25)),
+    profile: z.enum(['driving', 'driving-traffic', 'walking', 'cycling']).default('driving'),
+    alternatives: z.enum(['true', 'false']).default('false'),
+    exclude: z
+      .string()
+      .optional()
+      .transform(value => (value ? (value.split(',') as RouteExclusion[]) : [])),
+  })
+  .refine(
+    ({ profile, exclude }) => exclude.every(exclusion => supportedExclusions(profile, 'mapbox').includes(exclusion)),
+    { message: 'Exclusion not supported for this profile', path: ['exclude'] }
+  );
+
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request, limiter);
+  if (limited) return limited;
+
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) return invalidInput(parsed.error, 'InvalidInput');
+
+  const { coordinates, profile, alternatives, exclude } = parsed.data;
+  const cacheKey = directionsCacheKey(coordinates, profile, { alternatives: alternatives === 'true', exclude });
+
+  return proxyMapbox(
+    `/directions/v5/mapbox/${profile}/${coordinates.map(coord => `${coord.lng},${coord.lat}`).join(';')}`,
+    {
+      alternatives,
+      geometries: 'geojson',
+      steps: 'true',
+      language: 'pt-BR',
+      ...(exclude.length > 0 && { exclude: exclude.join(',') }),
+    },
+    cache,
+    cacheKey
+  );
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { geocodeCacheKey } from '@/lib/response-cache';
+import { createRateLimiter } from '@/lib/server/rate-limit';
+import {
+  createProxyCache,
+  enforceRateLimit,
+  invalidInput,
+  lngLatSchema,
+  proxyMapbox,
+} from '@/lib/server/mapbox-proxy';
+
+const cache = createProxyCache('server:geocode', 60 * 60);
+// Generous, since autocomplete sends a request for every pause in typing
+const limiter = createRateLimiter({ limit: 120, windowMs: 60 * 1000 });
+
+const querySchema = z.object({
+  q: z.string().trim().min(1).max(256),
+  proximity: lngLatSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+  autocomplete: z.enum(['true', 'false']).default('false'),
+});
+
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request, limiter);
+  if (limited) return limited;
+
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) return invalidInput(parsed.error);
+
+  const { q, proximity, limit, autocomplete } = parsed.data;
+  const cacheKey = `${geocodeCacheKey(q, { proximity, limit })}|${autocomplete}`;
+
+  return proxyMapbox(
+    `/geocoding/v5/mapbox.places/${encodeURIComponent(q)}.json`,
+    {
+      autocomplete,
+      language: 'pt-BR',
+      limit: String(limit),
+      ...(proximity && { proximity: `${proximity.lng},${proximity.lat}` }),
+    },
+    cache,
+    cacheKey
+  );
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { directionsCacheKey } from '@/lib/response-cache';
+import { createRateLimiter } from '@/lib/server/rate-limit';
+import {
+  createProxyCache,
+  enforceRateLimit,
+  invalidInput,
+  lngLatSchema,
+  proxyMapbox,
+} from '@/lib/server/mapbox-proxy';
+
+const MAX_OPTIMIZATION_COORDINATES = 12; // Mapbox Optimization API limit
+
+const cache = createProxyCache('server:optimize', 5 * 60);
+// Optimizing is an explicit action, and the costliest request we proxy
+const limiter = createRateLimiter({ limit: 10, windowMs: 60 * 1000 });
+
+const querySchema = z.object({
+  // Origin, stops and destination: "lng,lat;lng,lat"
+  coordinates: z
+    .string()
+    .transform(value => value.split(';'))
+    .pipe(z.array(lngLatSchema).min(2).max(MAX_OPTIMIZATION_COORDINATES)),
+  profile: z.enum(['driving', 'walking', 'cycling']).default('driving'),
+});
+
+// Always an open trip from the first coordinate to the last
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request, limiter);
+  if (limited) return limited;
+
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) return invalidInput(parsed.error, 'InvalidInput');
+
+  const { coordinates, profile } = parsed.data;
+  const cacheKey = directionsCacheKey(coordinates, profile, { alternatives: false, exclude: [] });
+
+  return proxyMapbox(
+    `/optimized-trips/v1/mapbox/${profile}/${coordinates.map(coord => `${coord.lng},${coord.lat}`).join(';')}`,
+    { source: 'first', destination: 'last', roundtrip: 'false' },
+    cache,
+    cacheKey
+  );
+}
@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { PoiType, isPoiType } from '@/lib/pois';
+import { coordinateKey } from '@/lib/response-cache';
+import { createRateLimiter } from '@/lib/server/rate-limit';
+import {
+  createProxyCache,
+  enforceRateLimit,
+  invalidInput,
+  lngLatSchema,
+  proxyMapbox,
+} from '@/lib/server/mapbox-proxy';
+
+const MAPBOX_CATEGORIES: Record<PoiType, string> = {
+  gas_station: 'gas_station',
+  hospital: 'hospital',
+  police: 'police_station',
+  parking: 'parking_lot',
+  restaurant: 'restaurant',
+};
+
+// Ten minutes; places open and close far more slowly than the map pans
+const cache = createProxyCache('server:pois', 10 * 60);
+// The map asks once per enabled POI type whenever the viewport settles
+const limiter = createRateLimiter({ limit: 120, windowMs: 60 * 1000 });
+
+const querySchema = z.object({
+  type: z.string().refine(isPoiType, 'Unknown POI type'),
+  proximity: lngLatSchema,
+  // "minLng,minLat,maxLng,maxLat"
+  bbox: z
+    .string()
+    .transform(value => value.split(',').map(Number))
+    .pipe(z.array(z.number().min(-180).max(180)).length(4)),
+  limit: z.coerce.number().int().min(1).max(25).default(25),
+});
+
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request, limiter);
+  if (limited) return limited;
+
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) return invalidInput(parsed.error);
+
+  const { type, proximity, bbox, limit } = parsed.data;
+  const cacheKey = [
+    type,
+    coordinateKey(proximity.lng, proximity.lat, 3),
+    bbox.map(value => value.toFixed(3)).join(','),
+    limit,
+  ].join('|');
+
+  return proxyMapbox(
+    `/search/searchbox/v1/category/${MAPBOX_CATEGORIES[type]}`,
+    {
+      proximity: `${proximity.lng},${proximity.lat}`,
+      bbox: bbox.join(','),
+      limit: String(limit),
+      language: 'pt',
+    },
+    cache,
+    cacheKey
+  );
+}
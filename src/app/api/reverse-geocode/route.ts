@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { coordinateKey } from '@/lib/response-cache';
+import { createRateLimiter } from '@/lib/server/rate-limit';
+import { createProxyCache, enforceRateLimit, invalidInput, proxyMapbox } from '@/lib/server/mapbox-proxy';
+
+// A day; addresses rarely change
+const cache = createProxyCache('server:reverse-geocode', 24 * 60 * 60);
+const limiter = createRateLimiter({ limit: 60, windowMs: 60 * 1000 });
+
+const querySchema = z.object({
+  lng: z.coerce.number().min(-180).max(180),
+  lat: z.coerce.number().min(-90).max(90),
+});
+
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request, limiter);
+  if (limited) return limited;
+
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) return invalidInput(parsed.error);
+
+  const { lng, lat } = parsed.data;
+  return proxyMapbox(
+    `/geocoding/v5/mapbox.places/${lng},${lat}.json`,
+    { language: 'pt-BR' },
+    cache,
+    coordinateKey(lng, lat)
+  );
+}
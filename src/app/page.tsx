@@ -1,7 +1,17 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import Map, { Marker, Source, Layer, NavigationControl, GeolocateControl } from 'react-map-gl';
+import Map, {
+  Marker,
+  Source,
+  Layer,
+  Popup,
+  NavigationControl,
+  GeolocateControl,
+  MapMouseEvent,
+  MapTouchEvent
+} from 'react-map-gl/mapbox';
+import type { GeoJSONSource } from 'mapbox-gl';
 import { 
   Navigation, 
   MapPin, 
@@ -14,48 +24,152 @@ import {
   Search,
   X,
   AlertTriangle,
-  Fuel,
-  Hospital,
-  ShieldAlert,
+  LocateFixed,
+  Star,
   Navigation2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { 
   getDirections, 
   geocodeAddress, 
+  geocodePlace,
+  reverseGeocode,
   formatDistance, 
   formatDuration,
   mapboxConfig,
-  speakInstruction,
-  calculateDistance
+  speakInstruction
 } from '@/lib/mapbox';
-import { NavigationState, Coordinates, Route, POI } from '@/types/navigation';
+import { calculateDistance } from '@/lib/geometry';
+import { computeRouteProgress } from '@/lib/route-progress';
+import { AlertType } from '@/lib/alerts';
+import { findAlertToConfirm } from '@/lib/alert-validation';
+import { getDeviceId } from '@/lib/storage';
+import { PoiType, poiTypes } from '@/lib/pois';
+import { getPoiProvider } from '@/lib/poi-provider';
+import { RouteSearchResult, searchAlongRoute } from '@/lib/route-search';
+import { optimizeStopOrder } from '@/lib/optimization';
+import {
+  CURRENT_LOCATION_ID,
+  CURRENT_LOCATION_LABEL,
+  GeolocationUnavailableError,
+  getCurrentPosition,
+  getFreshLocation
+} from '@/lib/geolocation';
+import { loadRouteExclusions, saveRouteExclusions } from '@/lib/route-options';
+import { SavedPlaceKind } from '@/lib/saved-places';
+import { TrackRecording, appendTrackPoint, startTrackRecording } from '@/lib/trip-history';
+import { ImportedTrack, trackToRoute } from '@/lib/route-files';
+import { SharedRoute, buildShareUrl, decodeSharedRoute, findSharedRoute } from '@/lib/share-link';
+import {
+  clearOfflineTrip,
+  loadOfflineTrip,
+  precacheRouteTiles,
+  registerServiceWorker,
+  saveOfflineTrip
+} from '@/lib/offline-cache';
+import { isApiError } from '@/lib/api-client';
+import { notifyApiError } from '@/lib/notify';
+import { useTrafficAlerts } from '@/hooks/use-traffic-alerts';
+import { useSavedPlaces } from '@/hooks/use-saved-places';
+import { useTripHistory } from '@/hooks/use-trip-history';
+import { useLiveShare } from '@/hooks/use-live-share';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { usePois } from '@/hooks/use-pois';
+import { AlertMarkers } from '@/components/navigation/alert-markers';
+import { AlertReportButton } from '@/components/navigation/alert-report-button';
+import { AlertConfirmPrompt } from '@/components/navigation/alert-confirm-prompt';
+import { PoiLayer, POI_SOURCE_ID, POI_CLUSTER_LAYER_ID, POI_LAYER_ID } from '@/components/navigation/poi-layer';
+import { PoiPopup } from '@/components/navigation/poi-popup';
+import { PoiLegend } from '@/components/navigation/poi-legend';
+import { RouteSearchPanel } from '@/components/navigation/route-search-panel';
+import { WaypointList } from '@/components/navigation/waypoint-list';
+import { TravelModeSwitcher, TravelModeLabel } from '@/components/navigation/travel-mode-switcher';
+import { RouteOptionsPanel } from '@/components/navigation/route-options-panel';
+import { AddressAutocomplete } from '@/components/navigation/address-autocomplete';
+import { SavedPlaceChips } from '@/components/navigation/saved-place-chips';
+import { SavePlaceForm } from '@/components/navigation/save-place-form';
+import { TripHistoryDrawer } from '@/components/navigation/trip-history-drawer';
+import { RouteFileMenu } from '@/components/navigation/route-file-menu';
+import { ShareRouteButton } from '@/components/navigation/share-route-button';
+import { LiveShareButton } from '@/components/navigation/live-share-button';
+import {
+  NavigationState,
+  Coordinates,
+  Route,
+  POI,
+  TrafficAlert,
+  AlertVote,
+  Waypoint,
+  TravelMode,
+  RouteExclusion,
+  PlaceSuggestion,
+  SavedPlace,
+  Trip
+} from '@/types/navigation';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 const RECALCULATE_THRESHOLD = 50; // meters
+const ARRIVAL_THRESHOLD = 50; // meters
+const OFF_ROUTE_FIX_COUNT = 3; // consecutive fixes beyond RECALCULATE_THRESHOLD
+const LONG_PRESS_DURATION = 600; // ms
+const RESUME_TRIP_MAX_AGE = 6 * 60 * 60 * 1000; // ms
 
 export default function NavigationApp() {
   const [state, setState] = useState<NavigationState>({
     origin: null,
     destination: null,
+    waypoints: [],
     currentLocation: null,
     routes: [],
     selectedRoute: null,
     isNavigating: false,
+    travelMode: 'driving',
+    exclusions: [],
     currentStepIndex: 0,
+    progress: null,
     isDarkMode: false,
   });
 
   const [originInput, setOriginInput] = useState('');
   const [destinationInput, setDestinationInput] = useState('');
+  const [originPlace, setOriginPlace] = useState<PlaceSuggestion | null>(null);
+  const [destinationPlace, setDestinationPlace] = useState<PlaceSuggestion | null>(null);
+  const [originAddress, setOriginAddress] = useState<string | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [showRoutes, setShowRoutes] = useState(false);
+  const [isRerouting, setIsRerouting] = useState(false);
   const mapRef = useRef<any>(null);
   const watchIdRef = useRef<number | null>(null);
+  const positionHandlerRef = useRef<(location: Coordinates) => void>(() => {});
+  const offRouteCountRef = useRef(0);
+  const legsCompletedRef = useRef(0);
+  const hasTypedOriginRef = useRef(false);
+  const { alerts, reportAlert, voteOnAlert } = useTrafficAlerts();
+  const [alertToConfirm, setAlertToConfirm] = useState<TrafficAlert | null>(null);
+  const promptedAlertsRef = useRef<Set<string>>(new Set());
+  const { pois, searchViewport } = usePois();
+  const [enabledPoiTypes, setEnabledPoiTypes] = useState<PoiType[]>(Object.keys(poiTypes) as PoiType[]);
+  const [selectedPoi, setSelectedPoi] = useState<POI | null>(null);
+  const [routeSearchResults, setRouteSearchResults] = useState<RouteSearchResult[] | null>(null);
+  const [isSearchingRoute, setIsSearchingRoute] = useState(false);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [optimizationMessage, setOptimizationMessage] = useState<string | null>(null);
+  const { places: savedPlaces, savePlace, removePlace } = useSavedPlaces();
+  const [placeToSave, setPlaceToSave] = useState<{ coordinates: Coordinates; address: string | null } | null>(null);
+  const longPressTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { trips, recentSearches, recordTrip, removeTrip, clearTrips, rememberSearch } = useTripHistory();
+  const [viewedTrip, setViewedTrip] = useState<Trip | null>(null);
+  const [isRerunPending, setIsRerunPending] = useState(false);
+  const tripRecordingRef = useRef<TrackRecording | null>(null);
+  const sharedRoutePreferenceRef = useRef<Pick<SharedRoute, 'routeIndex' | 'routeDistance'> | null>(null);
+  const { sessionId: liveShareId, startSharing, stopSharing, publishUpdate } = useLiveShare();
+  const isOnline = useOnlineStatus();
+  const [isRerouteQueued, setIsRerouteQueued] = useState(false);
 
   // Auto dark mode based on time
   useEffect(() => {
@@ -64,22 +178,87 @@ export default function NavigationApp() {
     setState(prev => ({ ...prev, isDarkMode: shouldBeDark }));
   }, []);
 
-  // Get user location
+  // Restore saved routing preferences
   useEffect(() => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const coords: Coordinates = {
-            lng: position.coords.longitude,
-            lat: position.coords.latitude,
-          };
-          setState(prev => ({ ...prev, currentLocation: coords }));
-        },
-        (error) => console.error('Error getting location:', error)
-      );
+    setState(prev => ({ ...prev, exclusions: loadRouteExclusions() }));
+  }, []);
+
+  // Get user location and offer it as the default origin
+  useEffect(() => {
+    getCurrentPosition()
+      .then((position) => {
+        const coords: Coordinates = {
+          lng: position.coords.longitude,
+          lat: position.coords.latitude,
+        };
+        setState(prev => ({ ...prev, currentLocation: coords }));
+        setLocationError(null);
+        selectCurrentLocationAsOrigin(coords, false);
+      })
+      .catch((error: GeolocationUnavailableError) => setLocationError(error.message));
+  }, []);
+
+  // Caching only in production builds, so development never serves stale pages
+  useEffect(() => {
+    if (process.env.NODE_ENV === 'production') {
+      registerServiceWorker();
     }
   }, []);
 
+  // A reload mid-trip (often forced by a lost connection) resumes the cached trip
+  useEffect(() => {
+    if (decodeSharedRoute(new URLSearchParams(window.location.search))) return;
+
+    loadOfflineTrip()
+      .then(trip => {
+        if (!trip || Date.now() - trip.savedAt > RESUME_TRIP_MAX_AGE) return;
+
+        hasTypedOriginRef.current = true;
+        selectOrigin(trip.origin);
+        selectDestination(trip.destination);
+        tripRecordingRef.current = startTrackRecording(null);
+        setState(prev => ({
+          ...prev,
+          origin: trip.origin.coordinates,
+          destination: trip.destination.coordinates,
+          waypoints: trip.waypoints,
+          travelMode: trip.travelMode,
+          exclusions: trip.exclusions,
+          routes: [trip.route],
+          selectedRoute: trip.route,
+          isNavigating: true,
+          currentStepIndex: 0,
+          progress: null,
+        }));
+      })
+      .catch(error => console.error('Error loading offline trip:', error));
+  }, []);
+
+  // Open a route shared by link. Its avoid list applies to this route only and
+  // is not saved over the recipient's own preferences.
+  useEffect(() => {
+    const shared = decodeSharedRoute(new URLSearchParams(window.location.search));
+    if (!shared) return;
+
+    hasTypedOriginRef.current = true;
+    sharedRoutePreferenceRef.current = { routeIndex: shared.routeIndex, routeDistance: shared.routeDistance };
+    selectOrigin(shared.origin);
+    selectDestination(shared.destination);
+    setState(prev => ({
+      ...prev,
+      waypoints: shared.waypoints,
+      travelMode: shared.travelMode,
+      exclusions: shared.exclusions,
+    }));
+    setIsRerunPending(true);
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  // Route position fixes through a ref so the watch callback always sees the latest render
+  useEffect(() => {
+    positionHandlerRef.current = handlePositionUpdate;
+  });
+
   // Watch position during navigation
   useEffect(() => {
     if (state.isNavigating && state.selectedRoute) {
@@ -89,25 +268,7 @@ export default function NavigationApp() {
             lng: position.coords.longitude,
             lat: position.coords.latitude,
           };
-          
-          setState(prev => ({ ...prev, currentLocation: newLocation }));
-
-          // Check if user deviated from route
-          if (state.origin && state.destination) {
-            const currentStep = state.selectedRoute?.steps[state.currentStepIndex];
-            if (currentStep) {
-              // Simplified: check distance to destination
-              const distanceToDestination = calculateDistance(newLocation, state.destination);
-              
-              if (distanceToDestination < 50) {
-                // Arrived
-                if (isVoiceEnabled) {
-                  speakInstruction('Você chegou ao seu destino!');
-                }
-                handleStopNavigation();
-              }
-            }
-          }
+          positionHandlerRef.current(newLocation);
         },
         (error) => console.error('Error watching position:', error),
         { enableHighAccuracy: true, maximumAge: 1000 }
@@ -117,17 +278,279 @@ export default function NavigationApp() {
     return () => {
       if (watchIdRef.current !== null) {
         navigator.geolocation.clearWatch(watchIdRef.current);
+        watchIdRef.current = null;
       }
     };
-  }, [state.isNavigating, state.selectedRoute, state.currentStepIndex]);
+  }, [state.isNavigating, state.selectedRoute]);
+
+  // Keep anyone following the trip up to date; the hook throttles what is sent
+  useEffect(() => {
+    if (!state.isNavigating || !state.selectedRoute || !state.currentLocation) return;
+
+    publishUpdate({
+      location: state.currentLocation,
+      remainingDistance: state.progress?.remainingDistance ?? state.selectedRoute.distance,
+      remainingDuration: state.progress?.remainingDuration ?? state.selectedRoute.duration,
+      destinationLabel: destinationInput,
+      geometry: state.selectedRoute.geometry.coordinates,
+    });
+  }, [state.isNavigating, state.selectedRoute, state.currentLocation, state.progress]);
+
+  // Leg indexes restart whenever a new route is drawn from the current position
+  useEffect(() => {
+    legsCompletedRef.current = 0;
+  }, [state.selectedRoute]);
+
+  const pendingWaypoints = state.waypoints.filter(waypoint => !waypoint.visited);
+
+  const handlePositionUpdate = (newLocation: Coordinates) => {
+    if (!state.isNavigating || !state.selectedRoute) return;
+
+    if (tripRecordingRef.current) {
+      tripRecordingRef.current = appendTrackPoint(tripRecordingRef.current, newLocation);
+    }
+
+    if (state.destination && pendingWaypoints.length === 0) {
+      const distanceToDestination = calculateDistance(newLocation, state.destination);
+
+      if (distanceToDestination < ARRIVAL_THRESHOLD) {
+        if (isVoiceEnabled) {
+          speakInstruction('Você chegou ao seu destino!');
+        }
+        handleStopNavigation(true);
+        return;
+      }
+    }
+
+    const progress = computeRouteProgress(state.selectedRoute, newLocation);
+
+    // Require several consecutive off-route fixes so a single noisy reading doesn't trigger a reroute
+    if (progress && progress.distanceFromRoute > RECALCULATE_THRESHOLD) {
+      offRouteCountRef.current += 1;
+      setState(prev => ({ ...prev, currentLocation: newLocation }));
+
+      // An imported route is the route to follow, so guide back to it instead of replacing it
+      if (state.selectedRoute.isImported) {
+        if (offRouteCountRef.current === OFF_ROUTE_FIX_COUNT && isVoiceEnabled) {
+          speakInstruction('Você saiu da rota. Retorne ao trajeto.');
+        }
+      } else if (offRouteCountRef.current >= OFF_ROUTE_FIX_COUNT) {
+        handleReroute(newLocation);
+      }
+      return;
+    }
+    offRouteCountRef.current = 0;
+
+    // An intermediate stop is reached either by proximity or by the route moving on to the next leg
+    const nextStop = pendingWaypoints[0];
+    if (
+      nextStop &&
+      (calculateDistance(newLocation, nextStop.coordinates) < ARRIVAL_THRESHOLD ||
+        (progress && progress.legIndex > legsCompletedRef.current))
+    ) {
+      legsCompletedRef.current += 1;
+      setState(prev => ({
+        ...prev,
+        waypoints: prev.waypoints.map(w => (w.id === nextStop.id ? { ...w, visited: true } : w)),
+      }));
+
+      if (isVoiceEnabled) {
+        speakInstruction(`Você chegou à parada: ${nextStop.label}`);
+      }
+    }
+
+    // Never step backwards: snapping can briefly jump to an earlier, overlapping segment
+    const stepIndex = progress
+      ? Math.max(progress.stepIndex, state.currentStepIndex)
+      : state.currentStepIndex;
+
+    setState(prev => ({
+      ...prev,
+      currentLocation: newLocation,
+      currentStepIndex: stepIndex,
+      progress: progress ?? prev.progress,
+    }));
+
+    if (stepIndex !== state.currentStepIndex && isVoiceEnabled) {
+      const step = state.selectedRoute.steps[stepIndex];
+      if (step) speakInstruction(step.instruction);
+    }
+
+    if (!alertToConfirm) {
+      const nearbyAlert = findAlertToConfirm(alerts, newLocation, getDeviceId(), promptedAlertsRef.current);
+      if (nearbyAlert) {
+        promptedAlertsRef.current.add(nearbyAlert.id);
+        setAlertToConfirm(nearbyAlert);
+      }
+    }
+  };
+
+  // Without a connection the cached route stays on screen and the reroute waits for the network
+  const queueReroute = () => {
+    offRouteCountRef.current = 0;
+    if (!isRerouteQueued && isVoiceEnabled) {
+      speakInstruction('Sem conexão. A rota será recalculada quando o sinal voltar.');
+    }
+    setIsRerouteQueued(true);
+  };
+
+  const handleReroute = async (fromLocation: Coordinates) => {
+    if (isRerouting || !state.destination) return;
+
+    if (!navigator.onLine) {
+      queueReroute();
+      return;
+    }
+
+    setIsRerouteQueued(false);
+    setIsRerouting(true);
+    if (isVoiceEnabled) {
+      speakInstruction('Recalculando rota');
+    }
+
+    try {
+      const routes = await getDirections(fromLocation, state.destination, false, {
+        waypoints: pendingWaypoints.map(waypoint => waypoint.coordinates),
+        profile: state.travelMode,
+        exclude: state.exclusions,
+      });
 
-  const handleSearch = async () => {
-    if (!originInput || !destinationInput) return;
+      if (routes[0]) {
+        setState(prev => ({
+          ...prev,
+          routes,
+          selectedRoute: routes[0],
+          currentStepIndex: 0,
+          progress: null,
+        }));
+        cacheTripForOffline(routes[0]);
+
+        if (isVoiceEnabled) {
+          speakInstruction(routes[0].steps[0]?.instruction ?? 'Continue em frente');
+        }
+      }
+    } catch (error) {
+      if (isApiError(error, 'network')) {
+        queueReroute();
+      } else {
+        notifyApiError(error, 'recalculating route');
+      }
+    } finally {
+      offRouteCountRef.current = 0;
+      setIsRerouting(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOnline && isRerouteQueued && state.isNavigating && state.currentLocation) {
+      handleReroute(state.currentLocation);
+    }
+  }, [isOnline]);
+
+  const cacheTripForOffline = (route: Route) => {
+    if (!state.origin || !state.destination) return;
+
+    saveOfflineTrip({
+      route,
+      origin: { id: originPlace?.id ?? 'origin', label: originInput, coordinates: state.origin },
+      destination: {
+        id: destinationPlace?.id ?? 'destination',
+        label: destinationInput,
+        coordinates: state.destination,
+      },
+      waypoints: state.waypoints,
+      travelMode: state.travelMode,
+      exclusions: state.exclusions,
+      savedAt: Date.now(),
+    }).catch(error => console.error('Error caching trip for offline use:', error));
+
+    if (mapRef.current) {
+      precacheRouteTiles(mapRef.current.getMap(), route);
+    }
+  };
+
+  const selectOrigin = (place: PlaceSuggestion) => {
+    setOriginPlace(place);
+    setOriginInput(place.label);
+  };
+
+  const selectDestination = (place: PlaceSuggestion) => {
+    setDestinationPlace(place);
+    setDestinationInput(place.label);
+  };
+
+  const selectCurrentLocationAsOrigin = async (coordinates: Coordinates, replaceTyped: boolean = true) => {
+    // Don't overwrite an origin the driver typed while the first fix was pending
+    if (!replaceTyped && hasTypedOriginRef.current) return;
+
+    setOriginPlace({ id: CURRENT_LOCATION_ID, label: CURRENT_LOCATION_LABEL, coordinates });
+    setOriginInput(CURRENT_LOCATION_LABEL);
+    setOriginAddress(null);
+    try {
+      setOriginAddress(await reverseGeocode(coordinates));
+    } catch (error) {
+      notifyApiError(error, 'reverse geocoding');
+    }
+  };
+
+  // Text that was never picked from the suggestions is resolved to its best match,
+  // and the input is updated to show that match so a wrong guess is visible
+  const resolvePlace = async (
+    text: string,
+    selected: PlaceSuggestion | null,
+    onResolved: (place: PlaceSuggestion) => void
+  ): Promise<PlaceSuggestion | null> => {
+    if (selected?.id === CURRENT_LOCATION_ID) {
+      try {
+        const coordinates = await getFreshLocation();
+        setState(prev => ({ ...prev, currentLocation: coordinates }));
+        return { ...selected, coordinates };
+      } catch (error) {
+        setLocationError((error as GeolocationUnavailableError).message);
+        setOriginPlace(null);
+        setOriginInput('');
+        setOriginAddress(null);
+        return null;
+      }
+    }
+    if (selected) return selected;
+    if (!text) return null;
+
+    const place = await geocodePlace(text, state.currentLocation);
+    if (place) onResolved(place);
+    return place;
+  };
+
+  const fitMapToCoordinates = (coordinates: [number, number][]) => {
+    if (!mapRef.current || coordinates.length === 0) return;
+
+    const bounds = coordinates.reduce(
+      (bounds, coord) => {
+        return [
+          [Math.min(bounds[0][0], coord[0]), Math.min(bounds[0][1], coord[1])],
+          [Math.max(bounds[1][0], coord[0]), Math.max(bounds[1][1], coord[1])],
+        ];
+      },
+      [[coordinates[0][0], coordinates[0][1]], [coordinates[0][0], coordinates[0][1]]]
+    );
+
+    mapRef.current.fitBounds(bounds, { padding: 50, duration: 1000 });
+  };
+
+  const handleSearch = async (destinationOverride?: PlaceSuggestion) => {
+    if (!originInput || (!destinationInput && !destinationOverride)) return;
 
     setIsLoading(true);
+    setViewedTrip(null);
     try {
-      const originCoords = await geocodeAddress(originInput);
-      const destCoords = await geocodeAddress(destinationInput);
+      const originCoords = (await resolvePlace(originInput, originPlace, selectOrigin))?.coordinates;
+      const destination = await resolvePlace(
+        destinationInput,
+        destinationOverride ?? destinationPlace,
+        selectDestination
+      );
+      const destCoords = destination?.coordinates;
+      if (destination) rememberSearch(destination);
 
       if (originCoords && destCoords) {
         setState(prev => ({
@@ -136,68 +559,443 @@ export default function NavigationApp() {
           destination: destCoords,
         }));
 
-        const routes = await getDirections(originCoords, destCoords, true);
+        const routes = await getDirections(originCoords, destCoords, true, {
+          waypoints: state.waypoints.map(waypoint => waypoint.coordinates),
+          profile: state.travelMode,
+          exclude: state.exclusions,
+        });
         
+        const preference = sharedRoutePreferenceRef.current;
+        sharedRoutePreferenceRef.current = null;
         setState(prev => ({
           ...prev,
           routes,
-          selectedRoute: routes[0] || null,
+          selectedRoute: preference ? findSharedRoute(routes, preference) : routes[0] || null,
         }));
 
         setShowRoutes(true);
 
-        // Fit map to route
-        if (mapRef.current && routes[0]) {
-          const coordinates = routes[0].geometry.coordinates;
-          const bounds = coordinates.reduce(
-            (bounds, coord) => {
-              return [
-                [Math.min(bounds[0][0], coord[0]), Math.min(bounds[0][1], coord[1])],
-                [Math.max(bounds[1][0], coord[0]), Math.max(bounds[1][1], coord[1])],
-              ];
-            },
-            [[coordinates[0][0], coordinates[0][1]], [coordinates[0][0], coordinates[0][1]]]
-          );
-
-          mapRef.current.fitBounds(bounds, { padding: 50, duration: 1000 });
+        if (routes[0]) {
+          fitMapToCoordinates(routes[0].geometry.coordinates);
         }
       }
     } catch (error) {
-      console.error('Error searching:', error);
+      notifyApiError(error, 'searching');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleTravelModeChange = (travelMode: TravelMode) => {
+    setState(prev => ({ ...prev, travelMode }));
+  };
+
+  const handleExclusionsChange = (exclusions: RouteExclusion[]) => {
+    saveRouteExclusions(exclusions);
+    setState(prev => ({ ...prev, exclusions }));
+  };
+
+  // Routes on screen were computed with the previous mode or preferences, so fetch them again
+  useEffect(() => {
+    if (showRoutes && !state.isNavigating) {
+      handleSearch();
+    }
+  }, [state.travelMode, state.exclusions]);
+
+  // Re-running a trip or opening a shared link changes several inputs at once;
+  // search once they have all rendered
+  useEffect(() => {
+    if (isRerunPending) {
+      setIsRerunPending(false);
+      handleSearch();
+    }
+  }, [isRerunPending]);
+
   const handleStartNavigation = () => {
     if (!state.selectedRoute) return;
 
-    setState(prev => ({ ...prev, isNavigating: true, currentStepIndex: 0 }));
+    tripRecordingRef.current = startTrackRecording(state.currentLocation ?? state.origin);
+    cacheTripForOffline(state.selectedRoute);
+    offRouteCountRef.current = 0;
+    legsCompletedRef.current = 0;
+    setState(prev => ({
+      ...prev,
+      isNavigating: true,
+      currentStepIndex: 0,
+      progress: null,
+      waypoints: prev.waypoints.map(waypoint => ({ ...waypoint, visited: false })),
+    }));
     
     if (isVoiceEnabled && state.selectedRoute.steps[0]) {
       speakInstruction(state.selectedRoute.steps[0].instruction);
     }
   };
 
-  const handleStopNavigation = () => {
+  const finishTripRecording = (completed: boolean) => {
+    const recording = tripRecordingRef.current;
+    tripRecordingRef.current = null;
+    if (!recording || !state.origin || !state.destination || !state.selectedRoute) return;
+
+    // A trip cancelled before the first movement isn't worth keeping
+    if (recording.track.length < 2) return;
+
+    recordTrip({
+      id: `trip-${recording.startedAt}`,
+      origin: { id: originPlace?.id ?? 'origin', label: originInput, coordinates: state.origin },
+      destination: {
+        id: destinationPlace?.id ?? 'destination',
+        label: destinationInput,
+        coordinates: state.destination,
+      },
+      waypoints: state.waypoints.map(({ visited, ...waypoint }) => waypoint),
+      travelMode: state.travelMode,
+      route: {
+        distance: state.selectedRoute.distance,
+        duration: state.selectedRoute.duration,
+        hasTolls: state.selectedRoute.hasTolls,
+        hasFerries: state.selectedRoute.hasFerries,
+      },
+      startedAt: recording.startedAt,
+      endedAt: Date.now(),
+      track: recording.track,
+      trackTimes: recording.trackTimes,
+      completed,
+    });
+  };
+
+  const handleStopNavigation = (arrived: boolean = false) => {
+    finishTripRecording(arrived);
+    stopSharing();
+    setIsRerouteQueued(false);
+    clearOfflineTrip().catch(error => console.error('Error clearing offline trip:', error));
     setState(prev => ({ 
       ...prev, 
       isNavigating: false, 
       currentStepIndex: 0,
+      progress: null,
       routes: [],
       selectedRoute: null,
       origin: null,
       destination: null,
+      waypoints: [],
     }));
     setShowRoutes(false);
     setOriginInput('');
     setDestinationInput('');
+    setOriginPlace(null);
+    setDestinationPlace(null);
+    setOriginAddress(null);
+
+    if (state.currentLocation) {
+      selectCurrentLocationAsOrigin(state.currentLocation);
+    }
   };
 
   const handleSelectRoute = (route: Route) => {
     setState(prev => ({ ...prev, selectedRoute: route }));
   };
 
+  const handleReportAlert = async (type: AlertType) => {
+    if (!state.currentLocation) return;
+
+    const alert = await reportAlert(type, state.currentLocation);
+    if (alert && isVoiceEnabled) {
+      speakInstruction('Alerta reportado. Obrigado!');
+    }
+  };
+
+  const handleAlertVote = (vote: AlertVote['vote']) => {
+    if (alertToConfirm) {
+      voteOnAlert(alertToConfirm, vote);
+    }
+    setAlertToConfirm(null);
+  };
+
+  const closeAlertPrompt = useCallback(() => setAlertToConfirm(null), []);
+
+  const handleMapClick = (event: MapMouseEvent) => {
+    const feature = event.features?.[0];
+    if (!feature || feature.geometry.type !== 'Point') {
+      setSelectedPoi(null);
+      return;
+    }
+
+    if (feature.layer?.id === POI_CLUSTER_LAYER_ID) {
+      const source = mapRef.current?.getSource(POI_SOURCE_ID) as GeoJSONSource | undefined;
+      const [lng, lat] = feature.geometry.coordinates;
+      source?.getClusterExpansionZoom(feature.properties?.cluster_id, (error, zoom) => {
+        if (error || zoom == null) return;
+        mapRef.current?.easeTo({ center: [lng, lat], zoom, duration: 500 });
+      });
+      return;
+    }
+
+    if (feature.layer?.id === POI_LAYER_ID) {
+      setSelectedPoi(pois.find(poi => poi.id === feature.properties?.id) ?? null);
+    }
+  };
+
+  const handleMapMoveEnd = () => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const center = map.getCenter();
+    const bounds = map.getBounds();
+    if (!bounds) return;
+
+    const centerCoords = { lng: center.lng, lat: center.lat };
+    const corner = bounds.getNorthEast();
+    searchViewport(centerCoords, calculateDistance(centerCoords, { lng: corner.lng, lat: corner.lat }));
+  };
+
+  const handleNavigateToPoi = (poi: POI) => {
+    const place: PlaceSuggestion = { id: poi.id, label: poi.name, coordinates: poi.coordinates };
+    setSelectedPoi(null);
+    selectDestination(place);
+    setState(prev => ({ ...prev, destination: poi.coordinates }));
+
+    if (originInput) {
+      handleSearch(place);
+    }
+  };
+
+  const handleRouteSearch = async (type: PoiType) => {
+    if (!state.selectedRoute || !state.currentLocation || !state.destination) return;
+
+    setIsSearchingRoute(true);
+    try {
+      const results = await searchAlongRoute(
+        getPoiProvider(),
+        state.selectedRoute,
+        state.currentLocation,
+        state.destination,
+        state.progress?.remainingDuration ?? state.selectedRoute.duration,
+        [type],
+        {
+          waypoints: pendingWaypoints.map(waypoint => waypoint.coordinates),
+          profile: state.travelMode,
+          exclude: state.exclusions,
+        }
+      );
+      setRouteSearchResults(results);
+    } catch (error) {
+      notifyApiError(error, 'searching along route');
+      setRouteSearchResults(null);
+    } finally {
+      setIsSearchingRoute(false);
+    }
+  };
+
+  const handleSelectRouteStop = (result: RouteSearchResult) => {
+    offRouteCountRef.current = 0;
+    const stop: Waypoint = {
+      id: `stop-${result.poi.id}-${Date.now()}`,
+      label: result.poi.name,
+      coordinates: result.poi.coordinates,
+    };
+
+    // The detour stop comes before any remaining stops, after the ones already visited
+    setState(prev => {
+      const firstPending = prev.waypoints.findIndex(waypoint => !waypoint.visited);
+      const insertAt = firstPending === -1 ? prev.waypoints.length : firstPending;
+      return {
+        ...prev,
+        waypoints: [...prev.waypoints.slice(0, insertAt), stop, ...prev.waypoints.slice(insertAt)],
+        routes: [result.detourRoute],
+        selectedRoute: result.detourRoute,
+        currentStepIndex: 0,
+        progress: null,
+      };
+    });
+    setRouteSearchResults(null);
+
+    if (isVoiceEnabled) {
+      speakInstruction(`Parada adicionada: ${result.poi.name}`);
+    }
+  };
+
+  const handleAddWaypoint = async (label: string) => {
+    let coordinates: Coordinates | null;
+    try {
+      coordinates = await geocodeAddress(label);
+    } catch (error) {
+      notifyApiError(error, 'geocoding stop');
+      return false;
+    }
+    if (!coordinates) return false;
+
+    setState(prev => ({
+      ...prev,
+      waypoints: [...prev.waypoints, { id: `stop-${Date.now()}`, label, coordinates }],
+    }));
+    return true;
+  };
+
+  const handleRemoveWaypoint = (id: string) => {
+    setState(prev => ({ ...prev, waypoints: prev.waypoints.filter(w => w.id !== id) }));
+  };
+
+  const handleReorderWaypoints = (waypoints: Waypoint[]) => {
+    setState(prev => ({ ...prev, waypoints }));
+  };
+
+  const handleOptimizeWaypoints = async () => {
+    setIsOptimizing(true);
+    setOptimizationMessage(null);
+    try {
+      const originCoords = (await resolvePlace(originInput, originPlace, selectOrigin))?.coordinates;
+      const destCoords = (await resolvePlace(destinationInput, destinationPlace, selectDestination))?.coordinates;
+
+      if (!originCoords || !destCoords) {
+        setOptimizationMessage('Informe origem e destino para otimizar');
+        return;
+      }
+
+      const result = await optimizeStopOrder(originCoords, state.waypoints, destCoords, state.travelMode);
+      setState(prev => ({ ...prev, waypoints: result.waypoints }));
+      if (result.source === 'local') {
+        setOptimizationMessage(
+          result.savedDuration >= 60
+            ? `Estimativa offline, sem o serviço de rotas: economia de ~${formatDuration(result.savedDuration)}`
+            : 'Estimativa offline, sem o serviço de rotas: a ordem atual parece a melhor'
+        );
+      } else {
+        setOptimizationMessage(
+          result.savedDuration >= 60
+            ? `Economia de ${formatDuration(result.savedDuration)}`
+            : 'A ordem atual já é a melhor'
+        );
+      }
+    } catch (error) {
+      notifyApiError(error, 'optimizing stop order');
+      setOptimizationMessage('Não foi possível otimizar as paradas');
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const openSavePlace = async (coordinates: Coordinates) => {
+    setPlaceToSave({ coordinates, address: null });
+
+    let address: string | null = null;
+    try {
+      address = await reverseGeocode(coordinates);
+    } catch (error) {
+      notifyApiError(error, 'reverse geocoding');
+    }
+    setPlaceToSave(prev =>
+      prev?.coordinates === coordinates ? { coordinates, address: address ?? 'Endereço desconhecido' } : prev
+    );
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimeoutRef.current) {
+      clearTimeout(longPressTimeoutRef.current);
+      longPressTimeoutRef.current = null;
+    }
+  };
+
+  // Mapbox has no long-press event, so time touches ourselves; right-click covers desktop
+  const handleMapTouchStart = (event: MapTouchEvent) => {
+    cancelLongPress();
+    if (event.points.length !== 1) return;
+
+    const coordinates = { lng: event.lngLat.lng, lat: event.lngLat.lat };
+    longPressTimeoutRef.current = setTimeout(() => openSavePlace(coordinates), LONG_PRESS_DURATION);
+  };
+
+  const handleMapContextMenu = (event: MapMouseEvent) => {
+    event.preventDefault();
+    openSavePlace({ lng: event.lngLat.lng, lat: event.lngLat.lat });
+  };
+
+  const handleSavePlace = (kind: SavedPlaceKind, label?: string) => {
+    if (!placeToSave) return;
+
+    savePlace(kind, placeToSave.coordinates, placeToSave.address ?? '', label);
+    setPlaceToSave(null);
+  };
+
+  const handleSaveDestination = (kind: SavedPlaceKind, label?: string) => {
+    if (!destinationPlace) return;
+    savePlace(kind, destinationPlace.coordinates, destinationPlace.label, label);
+  };
+
+  const handleSelectSavedPlace = (place: SavedPlace) => {
+    selectDestination({ id: place.id, label: place.label, coordinates: place.coordinates });
+  };
+
+  const handleRerunTrip = (trip: Trip) => {
+    setViewedTrip(null);
+    selectOrigin(trip.origin);
+    selectDestination(trip.destination);
+    setOriginAddress(null);
+    setShowRoutes(false);
+    setState(prev => ({ ...prev, travelMode: trip.travelMode, waypoints: trip.waypoints }));
+    setIsRerunPending(true);
+  };
+
+  const handleImportRoute = (track: ImportedTrack) => {
+    const route = trackToRoute(track, state.travelMode);
+    const [startLng, startLat] = track.coordinates[0];
+    const [endLng, endLat] = track.coordinates[track.coordinates.length - 1];
+    const origin = { lng: startLng, lat: startLat };
+    const destination = { lng: endLng, lat: endLat };
+
+    setViewedTrip(null);
+    selectOrigin({ id: `${route.id}-start`, label: `Início de ${track.name}`, coordinates: origin });
+    selectDestination({ id: `${route.id}-end`, label: track.name, coordinates: destination });
+    setOriginAddress(null);
+    setState(prev => ({
+      ...prev,
+      origin,
+      destination,
+      waypoints: [],
+      routes: [route],
+      selectedRoute: route,
+    }));
+    setShowRoutes(true);
+    fitMapToCoordinates(route.geometry.coordinates);
+  };
+
+  const getShareUrl = (): string | null => {
+    if (!state.origin || !state.destination || !state.selectedRoute) return null;
+
+    const originLabel =
+      originPlace?.id === CURRENT_LOCATION_ID ? originAddress ?? 'Origem' : originInput;
+
+    return buildShareUrl(
+      {
+        origin: { id: 'origin', label: originLabel, coordinates: state.origin },
+        destination: { id: 'destination', label: destinationInput, coordinates: state.destination },
+        waypoints: state.waypoints,
+        travelMode: state.travelMode,
+        exclusions: state.exclusions,
+        routeIndex: Math.max(0, state.routes.findIndex(route => route.id === state.selectedRoute?.id)),
+        routeDistance: state.selectedRoute.distance,
+      },
+      `${window.location.origin}${window.location.pathname}`
+    );
+  };
+
+  const handleViewTripTrack = (trip: Trip) => {
+    setViewedTrip(trip);
+    fitMapToCoordinates(trip.track);
+  };
+
+  const handleSelectRecentSearch = (place: PlaceSuggestion) => {
+    selectDestination(place);
+    if (originInput) {
+      handleSearch(place);
+    }
+  };
+
+  const togglePoiType = (type: PoiType) => {
+    setEnabledPoiTypes(prev =>
+      prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
+    );
+  };
+
   const toggleDarkMode = () => {
     setState(prev => ({ ...prev, isDarkMode: !prev.isDarkMode }));
   };
@@ -229,6 +1027,14 @@ export default function NavigationApp() {
         }}
         style={{ width: '100%', height: '100%' }}
         mapStyle={state.isDarkMode ? mapboxConfig.styles.dark : mapboxConfig.styles.light}
+        interactiveLayerIds={[POI_CLUSTER_LAYER_ID, POI_LAYER_ID]}
+        onClick={handleMapClick}
+        onLoad={handleMapMoveEnd}
+        onMoveEnd={handleMapMoveEnd}
+        onTouchStart={handleMapTouchStart}
+        onTouchEnd={cancelLongPress}
+        onTouchMove={cancelLongPress}
+        onContextMenu={handleMapContextMenu}
       >
         <NavigationControl position="bottom-right" />
         <GeolocateControl position="bottom-right" />
@@ -260,6 +1066,22 @@ export default function NavigationApp() {
           </Marker>
         )}
 
+        {/* Waypoint Markers */}
+        {state.waypoints.map((waypoint, index) => (
+          <Marker
+            key={waypoint.id}
+            longitude={waypoint.coordinates.lng}
+            latitude={waypoint.coordinates.lat}
+            anchor="bottom"
+          >
+            <div className={`flex items-center justify-center w-8 h-8 rounded-full bg-orange-500 border-2 border-white shadow-lg text-white text-sm font-bold ${
+              waypoint.visited ? 'opacity-50' : ''
+            }`}>
+              {index + 1}
+            </div>
+          </Marker>
+        ))}
+
         {/* Destination Marker */}
         {state.destination && (
           <Marker
@@ -273,6 +1095,33 @@ export default function NavigationApp() {
           </Marker>
         )}
 
+        {/* Points of Interest */}
+        <PoiLayer pois={pois} enabledTypes={enabledPoiTypes} />
+
+        {selectedPoi && (
+          <PoiPopup
+            poi={selectedPoi}
+            currentLocation={state.currentLocation}
+            onNavigate={handleNavigateToPoi}
+            onClose={() => setSelectedPoi(null)}
+          />
+        )}
+
+        {placeToSave && (
+          <Popup
+            longitude={placeToSave.coordinates.lng}
+            latitude={placeToSave.coordinates.lat}
+            anchor="bottom"
+            closeOnClick={false}
+            onClose={() => setPlaceToSave(null)}
+          >
+            <SavePlaceForm address={placeToSave.address} onSave={handleSavePlace} />
+          </Popup>
+        )}
+
+        {/* Traffic Alerts */}
+        <AlertMarkers alerts={alerts} />
+
         {/* Alternative Routes */}
         {alternativeRoutesGeoJSON.map((geoJSON, index) => (
           <Source key={`alt-route-${index}`} id={`alt-route-${index}`} type="geojson" data={geoJSON as any}>
@@ -288,6 +1137,30 @@ export default function NavigationApp() {
           </Source>
         ))}
 
+        {/* Recorded Trip Track */}
+        {viewedTrip && (
+          <Source
+            id="trip-track"
+            type="geojson"
+            data={{
+              type: 'Feature',
+              properties: {},
+              geometry: { type: 'LineString', coordinates: viewedTrip.track },
+            }}
+          >
+            <Layer
+              id="trip-track-layer"
+              type="line"
+              paint={{
+                'line-color': '#f97316',
+                'line-width': 4,
+                'line-opacity': 0.9,
+                'line-dasharray': [2, 1],
+              }}
+            />
+          </Source>
+        )}
+
         {/* Selected Route */}
         {routeGeoJSON && (
           <Source id="route" type="geojson" data={routeGeoJSON as any}>
@@ -308,35 +1181,107 @@ export default function NavigationApp() {
       <div className="absolute top-0 left-0 right-0 p-4 bg-gradient-to-b from-black/50 to-transparent pointer-events-none">
         <div className="max-w-4xl mx-auto pointer-events-auto">
           <Card className="p-4 backdrop-blur-lg bg-white/95 dark:bg-gray-900/95 shadow-2xl">
+            <div className="flex items-center gap-2 mb-3">
+              <TravelModeSwitcher
+                value={state.travelMode}
+                disabled={state.isNavigating}
+                onChange={handleTravelModeChange}
+              />
+              <RouteOptionsPanel
+                value={state.exclusions}
+                travelMode={state.travelMode}
+                disabled={state.isNavigating}
+                onChange={handleExclusionsChange}
+              />
+            </div>
+            {!state.isNavigating && (
+              <div className="mb-3">
+                <SavedPlaceChips
+                  places={savedPlaces}
+                  onSelect={handleSelectSavedPlace}
+                  onRemove={removePlace}
+                />
+              </div>
+            )}
             <div className="flex items-center gap-2 mb-3">
               <div className="flex-1 space-y-2">
-                <div className="relative">
-                  <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-green-600" />
-                  <Input
-                    placeholder="Origem (ex: Av. Paulista, São Paulo)"
-                    value={originInput}
-                    onChange={(e) => setOriginInput(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                    className="pl-10"
-                    disabled={state.isNavigating}
-                  />
-                </div>
-                <div className="relative">
-                  <Navigation className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-red-600" />
-                  <Input
-                    placeholder="Destino (ex: Ibirapuera, São Paulo)"
-                    value={destinationInput}
-                    onChange={(e) => setDestinationInput(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                    className="pl-10"
-                    disabled={state.isNavigating}
-                  />
-                </div>
+                <AddressAutocomplete
+                  placeholder="Origem (ex: Av. Paulista, São Paulo)"
+                  icon={<MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-green-600" />}
+                  value={originInput}
+                  proximity={state.currentLocation}
+                  disabled={state.isNavigating}
+                  onChange={(text) => {
+                    hasTypedOriginRef.current = true;
+                    setOriginInput(text);
+                    setOriginPlace(null);
+                    setOriginAddress(null);
+                  }}
+                  onSelect={selectOrigin}
+                  onSubmit={() => handleSearch()}
+                />
+                {!state.isNavigating && (
+                  <div className="flex items-center gap-2 px-1 text-xs">
+                    {originPlace?.id === CURRENT_LOCATION_ID ? (
+                      <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400 truncate">
+                        <LocateFixed className="w-3 h-3 shrink-0 text-blue-600" />
+                        {originAddress ?? 'Obtendo endereço...'}
+                      </span>
+                    ) : state.currentLocation && (
+                      <button
+                        onClick={() => selectCurrentLocationAsOrigin(state.currentLocation!)}
+                        className="flex items-center gap-1 text-blue-600 hover:underline"
+                      >
+                        <LocateFixed className="w-3 h-3" />
+                        Usar minha localização
+                      </button>
+                    )}
+                    {locationError && (
+                      <span className="text-red-600 dark:text-red-400">{locationError}</span>
+                    )}
+                  </div>
+                )}
+                <WaypointList
+                  waypoints={state.waypoints}
+                  disabled={state.isNavigating}
+                  onAdd={handleAddWaypoint}
+                  onRemove={handleRemoveWaypoint}
+                  onReorder={handleReorderWaypoints}
+                  onOptimize={handleOptimizeWaypoints}
+                  isOptimizing={isOptimizing}
+                  optimizationMessage={optimizationMessage}
+                />
+                <AddressAutocomplete
+                  placeholder="Destino (ex: Ibirapuera, São Paulo)"
+                  icon={<Navigation className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-red-600" />}
+                  value={destinationInput}
+                  proximity={state.currentLocation}
+                  disabled={state.isNavigating}
+                  onChange={(text) => {
+                    setDestinationInput(text);
+                    setDestinationPlace(null);
+                  }}
+                  onSelect={selectDestination}
+                  onSubmit={() => handleSearch()}
+                />
+                {destinationPlace && !state.isNavigating && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button className="flex items-center gap-1 px-1 text-xs text-blue-600 hover:underline">
+                        <Star className="w-3 h-3" />
+                        Salvar este local
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent align="start" className="w-72 p-3">
+                      <SavePlaceForm address={destinationPlace.label} onSave={handleSaveDestination} />
+                    </PopoverContent>
+                  </Popover>
+                )}
               </div>
               
               {!state.isNavigating ? (
                 <Button 
-                  onClick={handleSearch} 
+                  onClick={() => handleSearch()} 
                   disabled={isLoading || !originInput || !destinationInput}
                   className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
                 >
@@ -348,7 +1293,7 @@ export default function NavigationApp() {
                 </Button>
               ) : (
                 <Button 
-                  onClick={handleStopNavigation}
+                  onClick={() => handleStopNavigation()}
                   variant="destructive"
                 >
                   <X className="w-5 h-5" />
@@ -359,9 +1304,12 @@ export default function NavigationApp() {
             {/* Route Options */}
             {showRoutes && state.routes.length > 0 && !state.isNavigating && (
               <div className="space-y-2 mt-4 pt-4 border-t">
-                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Rotas disponíveis:
-                </p>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Rotas disponíveis:
+                  </p>
+                  <ShareRouteButton getUrl={getShareUrl} disabled={state.selectedRoute?.isImported} />
+                </div>
                 {state.routes.map((route, index) => (
                   <button
                     key={route.id}
@@ -379,7 +1327,8 @@ export default function NavigationApp() {
                         }`} />
                         <div>
                           <p className="font-medium text-gray-900 dark:text-gray-100">
-                            Rota {index + 1} {route.isAlternative && '(Alternativa)'}
+                            {route.isImported ? 'Rota importada' : `Rota ${index + 1}`}{' '}
+                            {route.isAlternative && '(Alternativa)'}
                           </p>
                           <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400 mt-1">
                             <span className="flex items-center gap-1">
@@ -387,12 +1336,36 @@ export default function NavigationApp() {
                               {formatDuration(route.duration)}
                             </span>
                             <span>{formatDistance(route.distance)}</span>
+                            <TravelModeLabel mode={route.profile ?? state.travelMode} />
                           </div>
+                          {route.legs && route.legs.length > 1 && (
+                            <div className="flex flex-wrap gap-x-3 text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              {route.legs.slice(0, -1).map((_, legIndex) => (
+                                <span key={legIndex}>
+                                  Parada {legIndex + 1}: {formatDuration(
+                                    route.legs!.slice(0, legIndex + 1).reduce((sum, leg) => sum + leg.duration, 0)
+                                  )}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
-                      {state.selectedRoute?.id === route.id && (
-                        <Badge className="bg-blue-600">Selecionada</Badge>
-                      )}
+                      <div className="flex flex-col items-end gap-1">
+                        {state.selectedRoute?.id === route.id && (
+                          <Badge className="bg-blue-600">Selecionada</Badge>
+                        )}
+                        {route.hasTolls && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-700 dark:text-amber-400">
+                            Pedágio
+                          </Badge>
+                        )}
+                        {route.hasFerries && (
+                          <Badge variant="outline" className="border-cyan-500 text-cyan-700 dark:text-cyan-400">
+                            Balsa
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                   </button>
                 ))}
@@ -414,23 +1387,51 @@ export default function NavigationApp() {
       {/* Navigation Instructions */}
       {state.isNavigating && state.selectedRoute && (
         <div className="absolute bottom-0 left-0 right-0 p-4 pointer-events-none">
-          <div className="max-w-4xl mx-auto pointer-events-auto">
+          <div className="max-w-4xl mx-auto pointer-events-auto space-y-2">
+            {alertToConfirm && (
+              <AlertConfirmPrompt
+                alert={alertToConfirm}
+                onVote={handleAlertVote}
+                onClose={closeAlertPrompt}
+              />
+            )}
             <Card className="p-6 backdrop-blur-lg bg-white/95 dark:bg-gray-900/95 shadow-2xl">
               <div className="flex items-start gap-4">
                 <div className="bg-blue-600 rounded-full p-3">
                   <Navigation2 className="w-6 h-6 text-white" />
                 </div>
                 <div className="flex-1">
+                  {!isOnline && (
+                    <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">
+                      Sem conexão: seguindo a rota salva
+                      {isRerouteQueued && ' • recálculo pendente'}
+                    </p>
+                  )}
+                  {isRerouting ? (
+                    <p className="text-sm font-medium text-orange-600 dark:text-orange-400 mb-1">
+                      Recalculando rota...
+                    </p>
+                  ) : state.progress && (
+                    <p className="text-sm font-medium text-blue-600 dark:text-blue-400 mb-1">
+                      {formatDistance(state.progress.distanceToNextManeuver)}
+                    </p>
+                  )}
                   <p className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
                     {state.selectedRoute.steps[state.currentStepIndex]?.instruction || 'Continue em frente'}
                   </p>
                   <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
                     <span className="flex items-center gap-1">
                       <Clock className="w-4 h-4" />
-                      {formatDuration(state.selectedRoute.duration)}
+                      {formatDuration(state.progress?.remainingDuration ?? state.selectedRoute.duration)}
                     </span>
-                    <span>{formatDistance(state.selectedRoute.distance)}</span>
+                    <span>{formatDistance(state.progress?.remainingDistance ?? state.selectedRoute.distance)}</span>
                   </div>
+                  {pendingWaypoints[0] && (
+                    <p className="text-sm text-orange-600 dark:text-orange-400 mt-1">
+                      Próxima parada: {pendingWaypoints[0].label}
+                      {state.progress && ` • ${formatDuration(state.progress.legRemainingDuration)} • ${formatDistance(state.progress.legRemainingDistance)}`}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -473,27 +1474,70 @@ export default function NavigationApp() {
         >
           {isVoiceEnabled ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
         </Button>
+
+        {!state.isNavigating && (
+          <TripHistoryDrawer
+            trips={trips}
+            recentSearches={recentSearches}
+            onRerun={handleRerunTrip}
+            onViewTrack={handleViewTripTrack}
+            onRemove={removeTrip}
+            onClear={clearTrips}
+            onSelectSearch={handleSelectRecentSearch}
+          />
+        )}
+
+        {!state.isNavigating && (
+          <RouteFileMenu
+            route={state.selectedRoute}
+            routeName={destinationInput || 'Rota'}
+            onImport={handleImportRoute}
+          />
+        )}
+
+        {state.isNavigating && (
+          <LiveShareButton
+            sessionId={liveShareId}
+            onStart={startSharing}
+            onStop={stopSharing}
+          />
+        )}
+
+        {state.isNavigating && (
+          <AlertReportButton
+            disabled={!state.currentLocation}
+            onReport={handleReportAlert}
+          />
+        )}
+
+        {state.isNavigating && (
+          <RouteSearchPanel
+            disabled={!state.currentLocation}
+            isSearching={isSearchingRoute}
+            results={routeSearchResults}
+            onSearch={handleRouteSearch}
+            onSelect={handleSelectRouteStop}
+          />
+        )}
       </div>
 
+      {/* Viewed Trip */}
+      {viewedTrip && !state.isNavigating && (
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2">
+          <Card className="flex items-center gap-3 px-4 py-2 backdrop-blur-lg bg-white/95 dark:bg-gray-900/95 shadow-lg">
+            <p className="text-sm text-gray-800 dark:text-gray-200">
+              Trajeto gravado: {viewedTrip.origin.label} → {viewedTrip.destination.label}
+            </p>
+            <Button size="icon" variant="ghost" onClick={() => setViewedTrip(null)} aria-label="Fechar trajeto">
+              <X className="w-4 h-4" />
+            </Button>
+          </Card>
+        </div>
+      )}
+
       {/* POI Legend */}
       <div className="absolute bottom-24 left-4 pointer-events-none">
-        <Card className="p-3 backdrop-blur-lg bg-white/90 dark:bg-gray-900/90 shadow-lg pointer-events-auto">
-          <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Pontos de Interesse</p>
-          <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
-            <div className="flex items-center gap-2">
-              <Fuel className="w-4 h-4 text-yellow-600" />
-              <span>Postos</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <Hospital className="w-4 h-4 text-red-600" />
-              <span>Hospitais</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <ShieldAlert className="w-4 h-4 text-blue-600" />
-              <span>Polícia</span>
-            </div>
-          </div>
-        </Card>
+        <PoiLegend enabledTypes={enabledPoiTypes} onToggle={togglePoiType} />
       </div>
     </div>
   );
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useParams } from 'next/navigation';
+import Map, { Marker, Source, Layer, NavigationControl, MapRef } from 'react-map-gl/mapbox';
+import { Clock, Flag, Navigation2, SignalLow } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { formatDistance, formatDuration, mapboxConfig } from '@/lib/mapbox';
+import { useLiveTrip } from '@/hooks/use-live-trip';
+import 'mapbox-gl/dist/mapbox-gl.css';
+
+const STALE_AFTER = 60 * 1000; // ms without updates before warning the viewer
+
+export default function LiveTripViewer() {
+  const { id } = useParams<{ id: string }>();
+  const update = useLiveTrip(id);
+  const [now, setNow] = useState(() => Date.now());
+  const mapRef = useRef<MapRef>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 10000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Follow the driver
+  useEffect(() => {
+    if (update && mapRef.current) {
+      mapRef.current.easeTo({ center: [update.location.lng, update.location.lat], duration: 1000 });
+    }
+  }, [update]);
+
+  const isStale = update && !update.ended && now - update.timestamp > STALE_AFTER;
+  const arrivalTime = update
+    ? new Date(update.timestamp + update.remainingDuration * 1000).toLocaleTimeString('pt-BR', {
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : null;
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden">
+      <Map
+        ref={mapRef}
+        mapboxAccessToken={mapboxConfig.token}
+        initialViewState={{
+          longitude: update?.location.lng ?? -46.6333,
+          latitude: update?.location.lat ?? -23.5505,
+          zoom: 14,
+        }}
+        style={{ width: '100%', height: '100%' }}
+        mapStyle={mapboxConfig.styles.light}
+      >
+        <NavigationControl position="bottom-right" />
+
+        {update && (
+          <Source
+            id="shared-route"
+            type="geojson"
+            data={{
+              type: 'Feature',
+              properties: {},
+              geometry: { type: 'LineString', coordinates: update.geometry },
+            }}
+          >
+            <Layer
+              id="shared-route-layer"
+              type="line"
+              paint={{
+                'line-color': '#3b82f6',
+                'line-width': 6,
+                'line-opacity': 0.8,
+              }}
+            />
+          </Source>
+        )}
+
+        {update && update.geometry.length > 0 && (
+          <Marker
+            longitude={update.geometry[update.geometry.length - 1][0]}
+            latitude={update.geometry[update.geometry.length - 1][1]}
+            anchor="bottom"
+          >
+            <div className="bg-red-500 rounded-full p-2 shadow-lg">
+              <Flag className="w-5 h-5 text-white" />
+            </div>
+          </Marker>
+        )}
+
+        {update && (
+          <Marker longitude={update.location.lng} latitude={update.location.lat} anchor="center">
+            <div className="relative">
+              {!update.ended && (
+                <div className="absolute inset-0 bg-blue-500 rounded-full w-5 h-5 animate-ping opacity-75" />
+              )}
+              <div className="relative bg-blue-600 rounded-full w-5 h-5 border-2 border-white shadow-lg" />
+            </div>
+          </Marker>
+        )}
+      </Map>
+
+      <div className="absolute bottom-0 left-0 right-0 p-4 pointer-events-none">
+        <div className="max-w-xl mx-auto pointer-events-auto">
+          <Card className="p-5 backdrop-blur-lg bg-white/95 dark:bg-gray-900/95 shadow-2xl">
+            {!update ? (
+              <div className="flex items-center gap-3">
+                <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                <p className="text-gray-700 dark:text-gray-300">Aguardando a localização do motorista...</p>
+              </div>
+            ) : update.ended ? (
+              <div>
+                <p className="text-xl font-bold text-gray-900 dark:text-gray-100">Viagem encerrada</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Destino: {update.destinationLabel}
+                </p>
+              </div>
+            ) : (
+              <div className="flex items-start gap-4">
+                <div className="bg-blue-600 rounded-full p-3">
+                  <Navigation2 className="w-6 h-6 text-white" />
+                </div>
+                <div className="flex-1">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">A caminho de</p>
+                  <p className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                    {update.destinationLabel}
+                  </p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                    Chegada prevista às {arrivalTime}
+                  </p>
+                  <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      {formatDuration(update.remainingDuration)}
+                    </span>
+                    <span>{formatDistance(update.remainingDistance)}</span>
+                  </div>
+                  {isStale && (
+                    <p className="flex items-center gap-1 text-sm text-orange-600 mt-2">
+                      <SignalLow className="w-4 h-4" />
+                      Sem atualização há {formatDuration((now - update.timestamp) / 1000)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, ReactNode } from 'react';
+import { MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { geocodeCep, searchPlaces } from '@/lib/mapbox';
+import { CepAddress, detectCep, getCepProvider } from '@/lib/geocoding/cep';
+import { formatPlaceLabel } from '@/lib/geocoding/address';
+import { notifyApiError } from '@/lib/notify';
+import { Coordinates, PlaceSuggestion } from '@/types/navigation';
+
+const AUTOCOMPLETE_DEBOUNCE = 300; // ms
+const MIN_QUERY_LENGTH = 3;
+
+interface AddressAutocompleteProps {
+  value: string;
+  placeholder?: string;
+  icon?: ReactNode;
+  proximity?: Coordinates | null;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+  onSelect: (place: PlaceSuggestion) => void;
+  onSubmit?: () => void;
+}
+
+export function AddressAutocomplete({
+  value,
+  placeholder,
+  icon,
+  proximity,
+  disabled,
+  onChange,
+  onSelect,
+  onSubmit,
+}: AddressAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState('');
+  const [query, setQuery] = useState('');
+  // Set while the query is a CEP; `address` is null when the CEP doesn't exist
+  // or, with `failed`, when the lookup itself failed
+  const [cepLookup, setCepLookup] = useState<{
+    cep: string;
+    address: CepAddress | null;
+    failed?: boolean;
+  } | null>(null);
+  const [number, setNumber] = useState('');
+  const [isResolvingCep, setIsResolvingCep] = useState(false);
+
+  useEffect(() => {
+    const cep = detectCep(query);
+    // Never leave another CEP's address up, where Enter would confirm it
+    setCepLookup(current => (current && current.cep === cep?.cep ? current : null));
+
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      if (cep) {
+        try {
+          const address = await getCepProvider().lookup(cep.cep);
+          if (!cancelled) {
+            setSuggestions([]);
+            setCepLookup({ cep: cep.cep, address });
+            setNumber(cep.number ?? '');
+            setOpen(true);
+          }
+        } catch (error) {
+          if (!cancelled) {
+            notifyApiError(error, 'looking up CEP');
+            setSuggestions([]);
+            setCepLookup({ cep: cep.cep, address: null, failed: true });
+            setOpen(true);
+          }
+        }
+        return;
+      }
+
+      let results: PlaceSuggestion[] = [];
+      try {
+        results = await searchPlaces(query, proximity);
+      } catch (error) {
+        notifyApiError(error, 'searching places');
+      }
+      if (!cancelled) {
+        setSuggestions(results);
+        setHighlighted(results[0]?.id ?? '');
+        setOpen(results.length > 0);
+      }
+    }, AUTOCOMPLETE_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+    // Proximity only biases ranking, so a moving location shouldn't refetch
+  }, [query]);
+
+  const handleChange = (text: string) => {
+    onChange(text);
+    setQuery(text);
+  };
+
+  const handleSelect = (place: PlaceSuggestion) => {
+    onSelect(place);
+    setQuery('');
+    setSuggestions([]);
+    setCepLookup(null);
+    setOpen(false);
+  };
+
+  const confirmCep = async () => {
+    if (!cepLookup?.address || isResolvingCep) return;
+
+    setIsResolvingCep(true);
+    try {
+      const place = await geocodeCep(cepLookup.cep, number.trim() || undefined, proximity);
+      if (place) {
+        handleSelect(place);
+      } else {
+        toast.error('Não encontramos o endereço deste CEP no mapa.');
+      }
+    } catch (error) {
+      notifyApiError(error, 'geocoding CEP');
+    } finally {
+      setIsResolvingCep(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const index = suggestions.findIndex(s => s.id === highlighted);
+    const canNavigate = open && !cepLookup && suggestions.length > 0;
+
+    if (canNavigate && event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlighted(suggestions[Math.min(index + 1, suggestions.length - 1)].id);
+    } else if (canNavigate && event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted(suggestions[Math.max(index - 1, 0)].id);
+    } else if (event.key === 'Enter') {
+      if (cepLookup?.address) {
+        event.preventDefault();
+        confirmCep();
+      } else if (open && index >= 0) {
+        event.preventDefault();
+        handleSelect(suggestions[index]);
+      } else {
+        onSubmit?.();
+      }
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open && !disabled} onOpenChange={setOpen}>
+      <PopoverAnchor asChild>
+        <div className="relative">
+          {icon}
+          <Input
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={() => (suggestions.length > 0 || cepLookup) && setOpen(true)}
+            className="pl-10"
+            disabled={disabled}
+            role="combobox"
+            aria-expanded={open}
+            aria-autocomplete="list"
+          />
+        </div>
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="p-0 w-(--radix-popover-trigger-width)"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        {cepLookup ? (
+          <div className="p-3 space-y-2">
+            <p className="text-xs text-gray-500">CEP {cepLookup.cep}</p>
+            {cepLookup.address ? (
+              <>
+                <p className="flex items-start gap-2 text-sm text-gray-900 dark:text-gray-100">
+                  <MapPin className="w-4 h-4 text-gray-500 mt-0.5 shrink-0" />
+                  {formatPlaceLabel(cepLookup.address)}
+                </p>
+                {cepLookup.address.street && (
+                  <Input
+                    placeholder="Número (opcional)"
+                    inputMode="numeric"
+                    value={number}
+                    onChange={(e) => setNumber(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && confirmCep()}
+                    className="h-8"
+                  />
+                )}
+                <Button size="sm" className="w-full" disabled={isResolvingCep} onClick={confirmCep}>
+                  {isResolvingCep ? 'Localizando...' : 'Usar este endereço'}
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {cepLookup.failed ? 'Não foi possível consultar este CEP.' : 'CEP não encontrado.'}
+              </p>
+            )}
+          </div>
+        ) : (
+          <Command shouldFilter={false} value={highlighted} onValueChange={setHighlighted}>
+            <CommandList>
+              <CommandGroup>
+                {suggestions.map(place => (
+                  <CommandItem key={place.id} value={place.id} onSelect={() => handleSelect(place)}>
+                    <MapPin className="w-4 h-4 text-gray-500" />
+                    <span className="truncate">{place.label}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
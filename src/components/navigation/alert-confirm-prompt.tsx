@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { alertTypes } from '@/lib/alerts';
+import { AlertVote, TrafficAlert } from '@/types/navigation';
+
+const PROMPT_TIMEOUT = 10 * 1000;
+
+interface AlertConfirmPromptProps {
+  alert: TrafficAlert;
+  onVote: (vote: AlertVote['vote']) => void;
+  onClose: () => void;
+}
+
+export function AlertConfirmPrompt({ alert, onVote, onClose }: AlertConfirmPromptProps) {
+  // Drivers shouldn't have to dismiss the prompt by hand
+  useEffect(() => {
+    const timeout = setTimeout(onClose, PROMPT_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [alert.id, onClose]);
+
+  const meta = alertTypes[alert.type];
+
+  return (
+    <Card className="p-4 backdrop-blur-lg bg-white/95 dark:bg-gray-900/95 shadow-2xl">
+      <div className="flex items-center gap-3">
+        <div
+          className="flex items-center justify-center w-10 h-10 rounded-full text-xl"
+          style={{ backgroundColor: meta.color }}
+        >
+          {meta.icon}
+        </div>
+        <div className="flex-1">
+          <p className="font-medium text-gray-900 dark:text-gray-100">Ainda está lá?</p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{alert.description}</p>
+        </div>
+        <Button
+          size="icon"
+          onClick={() => onVote('confirm')}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          <Check className="w-5 h-5" />
+        </Button>
+        <Button size="icon" variant="destructive" onClick={() => onVote('dismiss')}>
+          <X className="w-5 h-5" />
+        </Button>
+      </div>
+    </Card>
+  );
+}
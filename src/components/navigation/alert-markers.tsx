@@ -0,0 +1,37 @@
+'use client';
+
+import { Marker } from 'react-map-gl/mapbox';
+import { alertTypes } from '@/lib/alerts';
+import { TrafficAlert } from '@/types/navigation';
+
+interface AlertMarkersProps {
+  alerts: TrafficAlert[];
+}
+
+export function AlertMarkers({ alerts }: AlertMarkersProps) {
+  return (
+    <>
+      {alerts.map(alert => {
+        const meta = alertTypes[alert.type];
+        return (
+          <Marker
+            key={alert.id}
+            longitude={alert.coordinates.lng}
+            latitude={alert.coordinates.lat}
+            anchor="bottom"
+          >
+            <div
+              title={alert.description}
+              className={`flex items-center justify-center w-9 h-9 rounded-full border-2 border-white shadow-lg text-lg ${
+                alert.validated ? '' : 'opacity-80'
+              }`}
+              style={{ backgroundColor: meta.color }}
+            >
+              {meta.icon}
+            </div>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertType, alertTypes } from '@/lib/alerts';
+
+interface AlertReportButtonProps {
+  disabled?: boolean;
+  onReport: (type: AlertType) => void;
+}
+
+export function AlertReportButton({ disabled, onReport }: AlertReportButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (type: AlertType) => {
+    onReport(type);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="secondary"
+          disabled={disabled}
+          className="shadow-lg backdrop-blur-lg bg-white/90 dark:bg-gray-900/90"
+        >
+          <AlertTriangle className="w-5 h-5 text-orange-600" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="left" className="w-64 p-3">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Reportar alerta</p>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(alertTypes) as AlertType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => handleSelect(type)}
+              className="flex flex-col items-center gap-1 p-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 transition-all"
+            >
+              <span className="text-2xl">{alertTypes[type].icon}</span>
+              <span className="text-xs text-gray-700 dark:text-gray-300">{alertTypes[type].label}</span>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
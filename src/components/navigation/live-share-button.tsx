@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Radio } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { buildLiveShareUrl } from '@/lib/live-share';
+
+interface LiveShareButtonProps {
+  sessionId: string | null;
+  disabled?: boolean;
+  onStart: () => string;
+  onStop: () => void;
+}
+
+export function LiveShareButton({ sessionId, disabled, onStart, onStop }: LiveShareButtonProps) {
+  const [copied, setCopied] = useState(false);
+  const url = sessionId ? buildLiveShareUrl(sessionId, window.location.origin) : null;
+
+  const share = async (link: string) => {
+    if (typeof navigator.share === 'function') {
+      try {
+        await navigator.share({ title: 'Acompanhe minha viagem no TUMAPS', url: link });
+        return;
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying live share link:', error);
+    }
+  };
+
+  const start = () => {
+    share(buildLiveShareUrl(onStart(), window.location.origin));
+  };
+
+  return (
+    <Popover onOpenChange={() => setCopied(false)}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="secondary"
+          disabled={disabled}
+          className={`shadow-lg backdrop-blur-lg ${
+            sessionId ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-white/90 dark:bg-gray-900/90'
+          }`}
+        >
+          <Radio className="w-5 h-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="left" className="w-80 p-3 space-y-2">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Compartilhar viagem</p>
+        {url ? (
+          <>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Quem tiver o link vê sua posição e a previsão de chegada até o fim da viagem.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={url} className="text-xs" onFocus={(event) => event.target.select()} />
+              <Button size="icon" variant="outline" onClick={() => share(url)} aria-label="Copiar link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            {copied && <p className="text-xs text-green-600">Link copiado</p>}
+            <Button size="sm" variant="destructive" className="w-full" onClick={onStop}>
+              Parar de compartilhar
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Gere um link para família ou central acompanharem sua posição e a previsão de chegada.
+            </p>
+            <Button size="sm" className="w-full" onClick={start}>
+              <Radio className="w-4 h-4 mr-1" />
+              Compartilhar viagem
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Source, Layer, useMap } from 'react-map-gl/mapbox';
+import { POI_IMAGE_PREFIX, PoiType, createPoiImage, isPoiType, poisToGeoJSON } from '@/lib/pois';
+import { POI } from '@/types/navigation';
+
+export const POI_SOURCE_ID = 'pois';
+export const POI_CLUSTER_LAYER_ID = 'poi-clusters';
+export const POI_LAYER_ID = 'poi-symbols';
+
+interface PoiLayerProps {
+  pois: POI[];
+  enabledTypes: PoiType[];
+}
+
+export function PoiLayer({ pois, enabledTypes }: PoiLayerProps) {
+  const { current: map } = useMap();
+
+  // Style switches (light/dark) drop custom images, so supply them on demand
+  useEffect(() => {
+    if (!map) return;
+    const mapInstance = map.getMap();
+
+    const handleMissingImage = (event: { id: string }) => {
+      if (!event.id.startsWith(POI_IMAGE_PREFIX)) return;
+
+      const type = event.id.slice(POI_IMAGE_PREFIX.length);
+      if (!isPoiType(type) || mapInstance.hasImage(event.id)) return;
+
+      const image = createPoiImage(type);
+      if (image) mapInstance.addImage(event.id, image, { pixelRatio: 2 });
+    };
+
+    mapInstance.on('styleimagemissing', handleMissingImage);
+    return () => {
+      mapInstance.off('styleimagemissing', handleMissingImage);
+    };
+  }, [map]);
+
+  return (
+    <Source
+      id={POI_SOURCE_ID}
+      type="geojson"
+      data={poisToGeoJSON(pois, enabledTypes)}
+      cluster
+      clusterMaxZoom={14}
+      clusterRadius={50}
+    >
+      <Layer
+        id={POI_CLUSTER_LAYER_ID}
+        type="circle"
+        filter={['has', 'point_count']}
+        paint={{
+          'circle-color': '#6366f1',
+          'circle-radius': ['step', ['get', 'point_count'], 16, 10, 20, 50, 26],
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#ffffff',
+        }}
+      />
+      <Layer
+        id="poi-cluster-count"
+        type="symbol"
+        filter={['has', 'point_count']}
+        layout={{
+          'text-field': ['get', 'point_count_abbreviated'],
+          'text-size': 12,
+        }}
+        paint={{ 'text-color': '#ffffff' }}
+      />
+      <Layer
+        id={POI_LAYER_ID}
+        type="symbol"
+        filter={['!', ['has', 'point_count']]}
+        layout={{
+          'icon-image': ['concat', POI_IMAGE_PREFIX, ['get', 'type']],
+          'icon-allow-overlap': true,
+        }}
+      />
+    </Source>
+  );
+}
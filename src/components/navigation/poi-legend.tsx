@@ -0,0 +1,45 @@
+'use client';
+
+import { Fuel, Hospital, ShieldAlert, SquareParking, UtensilsCrossed, LucideIcon } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { PoiType, poiTypes } from '@/lib/pois';
+
+const legendIcons: Record<PoiType, { icon: LucideIcon; className: string }> = {
+  gas_station: { icon: Fuel, className: 'text-yellow-600' },
+  hospital: { icon: Hospital, className: 'text-red-600' },
+  police: { icon: ShieldAlert, className: 'text-blue-600' },
+  parking: { icon: SquareParking, className: 'text-indigo-600' },
+  restaurant: { icon: UtensilsCrossed, className: 'text-green-600' },
+};
+
+interface PoiLegendProps {
+  enabledTypes: PoiType[];
+  onToggle: (type: PoiType) => void;
+}
+
+export function PoiLegend({ enabledTypes, onToggle }: PoiLegendProps) {
+  return (
+    <Card className="p-3 backdrop-blur-lg bg-white/90 dark:bg-gray-900/90 shadow-lg pointer-events-auto">
+      <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Pontos de Interesse</p>
+      <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+        {(Object.keys(poiTypes) as PoiType[]).map(type => {
+          const { icon: Icon, className } = legendIcons[type];
+          const enabled = enabledTypes.includes(type);
+          return (
+            <button
+              key={type}
+              onClick={() => onToggle(type)}
+              aria-pressed={enabled}
+              className={`flex items-center gap-2 w-full text-left transition-opacity ${
+                enabled ? '' : 'opacity-40 line-through'
+              }`}
+            >
+              <Icon className={`w-4 h-4 ${className}`} />
+              <span>{poiTypes[type].label}</span>
+            </button>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { Popup } from 'react-map-gl/mapbox';
+import { Navigation2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatDistance } from '@/lib/mapbox';
+import { calculateDistance } from '@/lib/geometry';
+import { poiTypes } from '@/lib/pois';
+import { Coordinates, POI } from '@/types/navigation';
+
+interface PoiPopupProps {
+  poi: POI;
+  currentLocation: Coordinates | null;
+  onNavigate: (poi: POI) => void;
+  onClose: () => void;
+}
+
+export function PoiPopup({ poi, currentLocation, onNavigate, onClose }: PoiPopupProps) {
+  return (
+    <Popup
+      longitude={poi.coordinates.lng}
+      latitude={poi.coordinates.lat}
+      anchor="bottom"
+      offset={20}
+      closeOnClick={false}
+      onClose={onClose}
+    >
+      <div className="space-y-2 p-1 text-gray-900">
+        <div>
+          <p className="font-medium">
+            {poi.icon} {poi.name}
+          </p>
+          <p className="text-xs text-gray-600">
+            {poiTypes[poi.type].label}
+            {currentLocation && ` • ${formatDistance(calculateDistance(currentLocation, poi.coordinates))}`}
+          </p>
+        </div>
+        <Button size="sm" className="w-full" onClick={() => onNavigate(poi)}>
+          <Navigation2 className="w-4 h-4 mr-1" />
+          Navegar até aqui
+        </Button>
+      </div>
+    </Popup>
+  );
+}
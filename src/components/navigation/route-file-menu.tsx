@@ -0,0 +1,94 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FileDown, FileUp, FolderOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  ImportedTrack,
+  RouteFileError,
+  downloadFile,
+  parseRouteFile,
+  routeToGeoJSON,
+  routeToGpx,
+  toFileName,
+} from '@/lib/route-files';
+import { Route } from '@/types/navigation';
+
+interface RouteFileMenuProps {
+  route: Route | null;
+  routeName: string;
+  disabled?: boolean;
+  onImport: (track: ImportedTrack) => void;
+}
+
+export function RouteFileMenu({ route, routeName, disabled, onImport }: RouteFileMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const exportRoute = (format: 'gpx' | 'geojson') => {
+    if (!route) return;
+
+    if (format === 'gpx') {
+      downloadFile(routeToGpx(route, routeName), toFileName(routeName, 'gpx'), 'application/gpx+xml');
+    } else {
+      downloadFile(routeToGeoJSON(route, routeName), toFileName(routeName, 'geojson'), 'application/geo+json');
+    }
+    setOpen(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      onImport(parseRouteFile(await file.text(), file.name));
+      setError(null);
+      setOpen(false);
+    } catch (error) {
+      setError(error instanceof RouteFileError ? error.message : 'Não foi possível ler o arquivo.');
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="secondary"
+          disabled={disabled}
+          className="shadow-lg backdrop-blur-lg bg-white/90 dark:bg-gray-900/90"
+        >
+          <FolderOpen className="w-5 h-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="left" className="w-64 p-3 space-y-2">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Arquivos de rota</p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" disabled={!route} onClick={() => exportRoute('gpx')}>
+            <FileDown className="w-4 h-4 mr-1" />
+            GPX
+          </Button>
+          <Button size="sm" variant="outline" disabled={!route} onClick={() => exportRoute('geojson')}>
+            <FileDown className="w-4 h-4 mr-1" />
+            GeoJSON
+          </Button>
+        </div>
+        <Button size="sm" variant="outline" className="w-full" onClick={() => inputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-1" />
+          Importar GPX ou GeoJSON
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+          className="hidden"
+          onChange={(event) => handleFile(event.target.files?.[0])}
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </PopoverContent>
+    </Popover>
+  );
+}
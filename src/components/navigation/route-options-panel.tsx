@@ -0,0 +1,67 @@
+'use client';
+
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { routeExclusions, supportedExclusions } from '@/lib/route-options';
+import { RouteExclusion, TravelMode } from '@/types/navigation';
+
+interface RouteOptionsPanelProps {
+  value: RouteExclusion[];
+  travelMode: TravelMode;
+  disabled?: boolean;
+  onChange: (exclusions: RouteExclusion[]) => void;
+}
+
+export function RouteOptionsPanel({ value, travelMode, disabled, onChange }: RouteOptionsPanelProps) {
+  const supported = supportedExclusions(travelMode);
+  // Saved choices the current mode or routing service can't apply don't count
+  const applied = value.filter(exclusion => supported.includes(exclusion));
+
+  const toggle = (exclusion: RouteExclusion, checked: boolean) => {
+    onChange(checked ? [...value, exclusion] : value.filter(e => e !== exclusion));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled}>
+          <SlidersHorizontal className="w-4 h-4 mr-1" />
+          Evitar
+          {applied.length > 0 && ` (${applied.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-3">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Evitar na rota</p>
+        <div className="space-y-2">
+          {(Object.keys(routeExclusions) as RouteExclusion[]).map(exclusion => {
+            const isSupported = supported.includes(exclusion);
+            return (
+              <div key={exclusion} className="flex items-center gap-2">
+                <Checkbox
+                  id={`exclude-${exclusion}`}
+                  checked={isSupported && value.includes(exclusion)}
+                  disabled={!isSupported}
+                  onCheckedChange={(checked) => toggle(exclusion, checked === true)}
+                />
+                <Label
+                  htmlFor={`exclude-${exclusion}`}
+                  className={isSupported ? '' : 'text-gray-400'}
+                >
+                  {routeExclusions[exclusion].label}
+                </Label>
+              </div>
+            );
+          })}
+        </div>
+        {supported.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            Sem opções de evitar para este modo com o serviço de rotas atual.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
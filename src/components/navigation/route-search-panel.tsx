@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { SearchCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatDistance, formatDuration } from '@/lib/mapbox';
+import { PoiType, poiTypes } from '@/lib/pois';
+import { RouteSearchResult } from '@/lib/route-search';
+
+const SEARCHABLE_TYPES: PoiType[] = ['gas_station', 'hospital', 'parking'];
+
+interface RouteSearchPanelProps {
+  disabled?: boolean;
+  isSearching: boolean;
+  results: RouteSearchResult[] | null;
+  onSearch: (type: PoiType) => void;
+  onSelect: (result: RouteSearchResult) => void;
+}
+
+export function RouteSearchPanel({ disabled, isSearching, results, onSearch, onSelect }: RouteSearchPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [activeType, setActiveType] = useState<PoiType | null>(null);
+
+  const handleSearch = (type: PoiType) => {
+    setActiveType(type);
+    onSearch(type);
+  };
+
+  const handleSelect = (result: RouteSearchResult) => {
+    onSelect(result);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="secondary"
+          disabled={disabled}
+          className="shadow-lg backdrop-blur-lg bg-white/90 dark:bg-gray-900/90"
+        >
+          <SearchCheck className="w-5 h-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="left" className="w-80 p-3">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Buscar no trajeto</p>
+        <div className="flex gap-2 mb-3">
+          {SEARCHABLE_TYPES.map(type => (
+            <Button
+              key={type}
+              size="sm"
+              variant={activeType === type ? 'default' : 'outline'}
+              onClick={() => handleSearch(type)}
+              disabled={isSearching}
+            >
+              {poiTypes[type].icon} {poiTypes[type].label}
+            </Button>
+          ))}
+        </div>
+
+        {isSearching && (
+          <div className="flex justify-center py-4">
+            <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+
+        {!isSearching && results && results.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Nada encontrado à frente no trajeto.</p>
+        )}
+
+        {!isSearching && results && results.length > 0 && (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {results.map(result => (
+              <button
+                key={result.poi.id}
+                onClick={() => handleSelect(result)}
+                className="w-full p-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 transition-all text-left"
+              >
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {result.poi.icon} {result.poi.name}
+                </p>
+                <div className="flex items-center gap-3 text-xs text-gray-600 dark:text-gray-400 mt-1">
+                  <span>em {formatDistance(result.distanceAhead)}</span>
+                  <span className="font-medium text-orange-600">
+                    +{formatDuration(result.detourDuration)}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
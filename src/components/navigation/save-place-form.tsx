@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { Briefcase, Home, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SavedPlaceKind } from '@/lib/saved-places';
+
+interface SavePlaceFormProps {
+  address: string | null;
+  onSave: (kind: SavedPlaceKind, label?: string) => void;
+}
+
+export function SavePlaceForm({ address, onSave }: SavePlaceFormProps) {
+  const [favoriteLabel, setFavoriteLabel] = useState('');
+
+  const saveFavorite = () => {
+    if (favoriteLabel.trim()) {
+      onSave('favorite', favoriteLabel.trim());
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-gray-900">
+      <p className="text-xs text-gray-600 truncate">{address ?? 'Obtendo endereço...'}</p>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={() => onSave('home')}>
+          <Home className="w-4 h-4 mr-1" />
+          Casa
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onSave('work')}>
+          <Briefcase className="w-4 h-4 mr-1" />
+          Trabalho
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Nome do favorito"
+          value={favoriteLabel}
+          onChange={(e) => setFavoriteLabel(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && saveFavorite()}
+          className="h-8 text-sm"
+        />
+        <Button size="sm" onClick={saveFavorite} disabled={!favoriteLabel.trim()}>
+          <Star className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { Briefcase, Home, Star, X } from 'lucide-react';
+import { SavedPlaceKind } from '@/lib/saved-places';
+import { SavedPlace } from '@/types/navigation';
+
+const chipIcons: Record<SavedPlaceKind, typeof Home> = {
+  home: Home,
+  work: Briefcase,
+  favorite: Star,
+};
+
+interface SavedPlaceChipsProps {
+  places: SavedPlace[];
+  onSelect: (place: SavedPlace) => void;
+  onRemove: (id: string) => void;
+}
+
+export function SavedPlaceChips({ places, onSelect, onRemove }: SavedPlaceChipsProps) {
+  if (places.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {places.map(place => {
+        const Icon = chipIcons[place.kind];
+        return (
+          <div
+            key={place.id}
+            className="group flex items-center gap-1 shrink-0 rounded-full border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 pl-3 pr-1 py-1 text-sm"
+          >
+            <button
+              onClick={() => onSelect(place)}
+              title={place.address}
+              className="flex items-center gap-1 text-gray-800 dark:text-gray-200"
+            >
+              <Icon className="w-4 h-4 text-blue-600" />
+              {place.label}
+            </button>
+            <button
+              onClick={() => onRemove(place.id)}
+              className="text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label={`Remover ${place.label}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
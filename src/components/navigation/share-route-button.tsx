@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+const COPIED_FEEDBACK_DURATION = 2000; // ms
+
+interface ShareRouteButtonProps {
+  getUrl: () => string | null;
+  disabled?: boolean;
+}
+
+export function ShareRouteButton({ getUrl, disabled }: ShareRouteButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const share = async () => {
+    const url = getUrl();
+    if (!url) return;
+
+    // The native share sheet is the natural choice on phones; desktops copy instead
+    if (typeof navigator.share === 'function') {
+      try {
+        await navigator.share({ title: 'Rota no TUMAPS', url });
+        return;
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_DURATION);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="outline" disabled={disabled} onClick={share}>
+      {copied ? <Check className="w-4 h-4 mr-1" /> : <Share2 className="w-4 h-4 mr-1" />}
+      {copied ? 'Link copiado' : 'Compartilhar'}
+    </Button>
+  );
+}
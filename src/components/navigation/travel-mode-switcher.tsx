@@ -0,0 +1,52 @@
+'use client';
+
+import { Bike, Car, Footprints, TrafficCone, LucideIcon } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { travelModes } from '@/lib/travel-modes';
+import { TravelMode } from '@/types/navigation';
+
+export const travelModeIcons: Record<TravelMode, LucideIcon> = {
+  driving: Car,
+  'driving-traffic': TrafficCone,
+  walking: Footprints,
+  cycling: Bike,
+};
+
+interface TravelModeSwitcherProps {
+  value: TravelMode;
+  disabled?: boolean;
+  onChange: (mode: TravelMode) => void;
+}
+
+export function TravelModeSwitcher({ value, disabled, onChange }: TravelModeSwitcherProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={value}
+      disabled={disabled}
+      // Radix emits an empty string when the active item is clicked again
+      onValueChange={(mode) => mode && onChange(mode as TravelMode)}
+    >
+      {(Object.keys(travelModes) as TravelMode[]).map(mode => {
+        const Icon = travelModeIcons[mode];
+        return (
+          <ToggleGroupItem key={mode} value={mode} aria-label={travelModes[mode].label} title={travelModes[mode].label}>
+            <Icon className="w-4 h-4" />
+          </ToggleGroupItem>
+        );
+      })}
+    </ToggleGroup>
+  );
+}
+
+export function TravelModeLabel({ mode }: { mode: TravelMode }) {
+  const Icon = travelModeIcons[mode];
+  return (
+    <span className="flex items-center gap-1">
+      <Icon className="w-4 h-4" />
+      {travelModes[mode].label}
+    </span>
+  );
+}
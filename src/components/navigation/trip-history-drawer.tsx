@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { Clock, FileDown, History, MapPin, RotateCcw, Route as RouteIcon, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from '@/components/ui/drawer';
+import { formatDistance, formatDuration } from '@/lib/mapbox';
+import { getActualDuration } from '@/lib/trip-history';
+import { downloadFile, toFileName, tripToGpx } from '@/lib/route-files';
+import { TravelModeLabel } from '@/components/navigation/travel-mode-switcher';
+import { PlaceSuggestion, Trip } from '@/types/navigation';
+
+interface TripHistoryDrawerProps {
+  trips: Trip[];
+  recentSearches: PlaceSuggestion[];
+  disabled?: boolean;
+  onRerun: (trip: Trip) => void;
+  onViewTrack: (trip: Trip) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onSelectSearch: (place: PlaceSuggestion) => void;
+}
+
+function formatTripDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function TripHistoryDrawer({
+  trips,
+  recentSearches,
+  disabled,
+  onRerun,
+  onViewTrack,
+  onRemove,
+  onClear,
+  onSelectSearch,
+}: TripHistoryDrawerProps) {
+  const [open, setOpen] = useState(false);
+
+  const select = (action: () => void) => {
+    action();
+    setOpen(false);
+  };
+
+  const exportTrack = (trip: Trip) => {
+    const name = `${trip.origin.label} ${trip.destination.label} ${new Date(trip.startedAt).toISOString().slice(0, 10)}`;
+    downloadFile(tripToGpx(trip), toFileName(name, 'gpx'), 'application/gpx+xml');
+  };
+
+  return (
+    <Drawer open={open} onOpenChange={setOpen}>
+      <DrawerTrigger asChild>
+        <Button
+          size="icon"
+          variant="secondary"
+          disabled={disabled}
+          className="shadow-lg backdrop-blur-lg bg-white/90 dark:bg-gray-900/90"
+        >
+          <History className="w-5 h-5" />
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-2xl overflow-y-auto">
+          <DrawerHeader>
+            <DrawerTitle>Histórico</DrawerTitle>
+            <DrawerDescription>Buscas recentes e viagens gravadas neste aparelho</DrawerDescription>
+          </DrawerHeader>
+
+          <div className="px-4 pb-6 space-y-4">
+            {recentSearches.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Buscas recentes</p>
+                <div className="flex flex-wrap gap-2">
+                  {recentSearches.map(place => (
+                    <button
+                      key={place.id}
+                      onClick={() => select(() => onSelectSearch(place))}
+                      className="flex items-center gap-1 max-w-full rounded-full border border-gray-200 dark:border-gray-700 px-3 py-1 text-sm text-gray-800 dark:text-gray-200 hover:border-gray-300 dark:hover:border-gray-600"
+                    >
+                      <MapPin className="w-3 h-3 shrink-0 text-gray-500" />
+                      <span className="truncate">{place.label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Viagens</p>
+                {trips.length > 0 && (
+                  <Button size="sm" variant="ghost" onClick={onClear} className="text-red-600">
+                    Limpar
+                  </Button>
+                )}
+              </div>
+
+              {trips.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Nenhuma viagem gravada ainda.</p>
+              )}
+
+              <div className="space-y-2">
+                {trips.map(trip => {
+                  const actualDuration = getActualDuration(trip);
+                  const difference = actualDuration - trip.route.duration;
+
+                  return (
+                    <div
+                      key={trip.id}
+                      className="p-3 rounded-lg border-2 border-gray-200 dark:border-gray-700"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                            {trip.origin.label} → {trip.destination.label}
+                          </p>
+                          <div className="flex flex-wrap items-center gap-x-3 text-xs text-gray-600 dark:text-gray-400 mt-1">
+                            <span>{formatTripDate(trip.startedAt)}</span>
+                            <span>{formatDistance(trip.route.distance)}</span>
+                            <TravelModeLabel mode={trip.travelMode} />
+                          </div>
+                          <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 mt-1">
+                            <Clock className="w-3 h-3" />
+                            {formatDuration(actualDuration)} (previsto {formatDuration(trip.route.duration)})
+                            {Math.abs(difference) >= 60 && (
+                              <span className={difference > 0 ? 'text-orange-600' : 'text-green-600'}>
+                                {difference > 0 ? '+' : '−'}{formatDuration(Math.abs(difference))}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {!trip.completed && (
+                          <Badge variant="outline" className="shrink-0">Interrompida</Badge>
+                        )}
+                      </div>
+
+                      <div className="flex gap-2 mt-2">
+                        <Button size="sm" variant="outline" onClick={() => select(() => onRerun(trip))}>
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Refazer
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={trip.track.length < 2}
+                          onClick={() => select(() => onViewTrack(trip))}
+                        >
+                          <RouteIcon className="w-4 h-4 mr-1" />
+                          Ver trajeto
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={trip.track.length < 2}
+                          onClick={() => exportTrack(trip)}
+                        >
+                          <FileDown className="w-4 h-4 mr-1" />
+                          GPX
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => onRemove(trip.id)}
+                          aria-label="Remover viagem"
+                          className="ml-auto text-gray-400 hover:text-red-600"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
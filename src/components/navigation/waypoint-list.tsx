@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { GripVertical, Plus, Shuffle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Waypoint } from '@/types/navigation';
+
+interface WaypointListProps {
+  waypoints: Waypoint[];
+  disabled?: boolean;
+  onAdd: (label: string) => Promise<boolean>;
+  onRemove: (id: string) => void;
+  onReorder: (waypoints: Waypoint[]) => void;
+  onOptimize?: () => void;
+  isOptimizing?: boolean;
+  optimizationMessage?: string | null;
+}
+
+function SortableWaypoint({
+  waypoint,
+  index,
+  disabled,
+  onRemove,
+}: {
+  waypoint: Waypoint;
+  index: number;
+  disabled?: boolean;
+  onRemove: (id: string) => void;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: waypoint.id,
+    disabled,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={`flex items-center gap-2 rounded-md border px-2 py-1.5 bg-white dark:bg-gray-900 ${
+        isDragging ? 'shadow-lg z-10' : ''
+      } ${waypoint.visited ? 'opacity-50' : ''}`}
+    >
+      <button
+        {...attributes}
+        {...listeners}
+        className="cursor-grab text-gray-400 disabled:cursor-default"
+        disabled={disabled}
+        aria-label="Reordenar parada"
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <span className="flex items-center justify-center w-5 h-5 rounded-full bg-orange-500 text-white text-xs font-medium">
+        {index + 1}
+      </span>
+      <span className="flex-1 truncate text-sm text-gray-800 dark:text-gray-200">{waypoint.label}</span>
+      {!disabled && (
+        <button
+          onClick={() => onRemove(waypoint.id)}
+          className="text-gray-400 hover:text-red-600"
+          aria-label="Remover parada"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function WaypointList({
+  waypoints,
+  disabled,
+  onAdd,
+  onRemove,
+  onReorder,
+  onOptimize,
+  isOptimizing,
+  optimizationMessage,
+}: WaypointListProps) {
+  const [stopInput, setStopInput] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const oldIndex = waypoints.findIndex(w => w.id === active.id);
+    const newIndex = waypoints.findIndex(w => w.id === over.id);
+    onReorder(arrayMove(waypoints, oldIndex, newIndex));
+  };
+
+  const handleAdd = async () => {
+    if (!stopInput.trim()) return;
+
+    setIsAdding(true);
+    const added = await onAdd(stopInput.trim());
+    setIsAdding(false);
+    if (added) setStopInput('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={waypoints.map(w => w.id)} strategy={verticalListSortingStrategy}>
+          {waypoints.map((waypoint, index) => (
+            <SortableWaypoint
+              key={waypoint.id}
+              waypoint={waypoint}
+              index={index}
+              disabled={disabled}
+              onRemove={onRemove}
+            />
+          ))}
+        </SortableContext>
+      </DndContext>
+
+      {!disabled && onOptimize && waypoints.length >= 2 && (
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={onOptimize} disabled={isOptimizing}>
+            {isOptimizing ? (
+              <div className="w-4 h-4 mr-1 border-2 border-gray-500 border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Shuffle className="w-4 h-4 mr-1" />
+            )}
+            Otimizar ordem
+          </Button>
+          {optimizationMessage && (
+            <span className="text-xs text-gray-600 dark:text-gray-400">{optimizationMessage}</span>
+          )}
+        </div>
+      )}
+
+      {!disabled && (
+        <div className="relative">
+          <Plus className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-orange-500" />
+          <Input
+            placeholder="Adicionar parada"
+            value={stopInput}
+            onChange={(e) => setStopInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            className="pl-10"
+            disabled={isAdding}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
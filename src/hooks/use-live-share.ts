@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import {
+  LIVE_UPDATE_INTERVAL,
+  LiveShareTransport,
+  createShareSessionId,
+  getLiveShareTransport,
+} from '@/lib/live-share';
+import { LiveTripUpdate } from '@/types/navigation';
+
+type TripSnapshot = Omit<LiveTripUpdate, 'sessionId' | 'timestamp' | 'ended'>;
+
+export function useLiveShare() {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const transportRef = useRef<LiveShareTransport | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const lastSnapshotRef = useRef<TripSnapshot | null>(null);
+  const lastPublishedAtRef = useRef(0);
+
+  const publish = useCallback(async (snapshot: TripSnapshot, ended: boolean) => {
+    if (!transportRef.current || !sessionIdRef.current) return;
+
+    lastPublishedAtRef.current = Date.now();
+    try {
+      await transportRef.current.publish({
+        ...snapshot,
+        sessionId: sessionIdRef.current,
+        timestamp: Date.now(),
+        ended,
+      });
+    } catch (error) {
+      console.error('Error publishing live location:', error);
+    }
+  }, []);
+
+  const startSharing = useCallback(() => {
+    if (!transportRef.current) {
+      transportRef.current = getLiveShareTransport();
+    }
+
+    const id = sessionIdRef.current ?? createShareSessionId();
+    sessionIdRef.current = id;
+    setSessionId(id);
+
+    // Send what we already have so the viewer isn't empty until the next fix
+    if (lastSnapshotRef.current) publish(lastSnapshotRef.current, false);
+    return id;
+  }, [publish]);
+
+  // Called on every fix; only every LIVE_UPDATE_INTERVAL actually goes out
+  const publishUpdate = useCallback(
+    (snapshot: TripSnapshot) => {
+      lastSnapshotRef.current = snapshot;
+      if (Date.now() - lastPublishedAtRef.current >= LIVE_UPDATE_INTERVAL) {
+        publish(snapshot, false);
+      }
+    },
+    [publish]
+  );
+
+  const stopSharing = useCallback(async () => {
+    const id = sessionIdRef.current;
+    const snapshot = lastSnapshotRef.current;
+    lastSnapshotRef.current = null;
+    if (!id) return;
+
+    // Tell viewers the trip is over rather than leaving a frozen marker
+    if (snapshot) await publish(snapshot, true);
+    transportRef.current?.close(id);
+    sessionIdRef.current = null;
+    setSessionId(null);
+  }, [publish]);
+
+  return { sessionId, startSharing, stopSharing, publishUpdate };
+}
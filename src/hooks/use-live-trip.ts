@@ -0,0 +1,19 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getLiveShareTransport } from '@/lib/live-share';
+import { LiveTripUpdate } from '@/types/navigation';
+
+// Read-only side of live sharing: the latest update for a session
+export function useLiveTrip(sessionId: string) {
+  const [update, setUpdate] = useState<LiveTripUpdate | null>(null);
+
+  useEffect(() => {
+    // Broadcast channels can deliver out of order; never go back in time
+    return getLiveShareTransport().subscribe(sessionId, incoming => {
+      setUpdate(prev => (prev && prev.timestamp > incoming.timestamp ? prev : incoming));
+    });
+  }, [sessionId]);
+
+  return update;
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import { PoiProvider, getPoiProvider } from '@/lib/poi-provider';
+import { PoiType, poiTypes } from '@/lib/pois';
+import { notifyApiError } from '@/lib/notify';
+import { Coordinates, POI } from '@/types/navigation';
+
+const MAX_SEARCH_RADIUS = 5000; // meters
+
+export function usePois() {
+  const [pois, setPois] = useState<POI[]>([]);
+  const providerRef = useRef<PoiProvider | null>(null);
+  const latestRequestRef = useRef(0);
+
+  const searchViewport = useCallback(async (center: Coordinates, radius: number) => {
+    if (!providerRef.current) {
+      providerRef.current = getPoiProvider();
+    }
+
+    // Ignore responses that arrive after a newer viewport was requested
+    const requestId = ++latestRequestRef.current;
+    try {
+      const results = await providerRef.current.searchNearby(
+        center,
+        Math.min(radius, MAX_SEARCH_RADIUS),
+        Object.keys(poiTypes) as PoiType[]
+      );
+      if (requestId === latestRequestRef.current) {
+        setPois(results);
+      }
+    } catch (error) {
+      notifyApiError(error, 'loading POIs');
+    }
+  }, []);
+
+  return { pois, searchViewport };
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  SavedPlaceKind,
+  SavedPlacesStore,
+  createSavedPlace,
+  getSavedPlacesStore,
+} from '@/lib/saved-places';
+import { Coordinates, SavedPlace } from '@/types/navigation';
+
+const KIND_ORDER: Record<SavedPlaceKind, number> = { home: 0, work: 1, favorite: 2 };
+
+function sortPlaces(places: SavedPlace[]): SavedPlace[] {
+  return [...places].sort(
+    (a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.label.localeCompare(b.label)
+  );
+}
+
+export function useSavedPlaces() {
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const storeRef = useRef<SavedPlacesStore | null>(null);
+
+  useEffect(() => {
+    storeRef.current = getSavedPlacesStore();
+    storeRef.current
+      .list()
+      .then(stored => setPlaces(sortPlaces(stored)))
+      .catch(error => console.error('Error loading saved places:', error));
+  }, []);
+
+  const savePlace = useCallback(
+    async (kind: SavedPlaceKind, coordinates: Coordinates, address: string, label?: string) => {
+      if (!storeRef.current) return;
+
+      const place = createSavedPlace(kind, coordinates, address, label);
+      setPlaces(prev => sortPlaces([...prev.filter(p => p.id !== place.id), place]));
+
+      try {
+        await storeRef.current.save(place);
+      } catch (error) {
+        console.error('Error saving place:', error);
+      }
+    },
+    []
+  );
+
+  const removePlace = useCallback(async (id: string) => {
+    if (!storeRef.current) return;
+
+    setPlaces(prev => prev.filter(place => place.id !== id));
+    try {
+      await storeRef.current.remove(id);
+    } catch (error) {
+      console.error('Error removing saved place:', error);
+    }
+  }, []);
+
+  return { places, savePlace, removePlace };
+}
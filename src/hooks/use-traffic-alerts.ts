@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AlertStore, AlertType, createAlert, getAlertStore, isAlertExpired } from '@/lib/alerts';
+import { VoteStore, getVoteStore, submitVote } from '@/lib/alert-validation';
+import { getDeviceId } from '@/lib/storage';
+import { AlertVote, Coordinates, TrafficAlert } from '@/types/navigation';
+
+const ALERT_REFRESH_INTERVAL = 60 * 1000;
+
+export function useTrafficAlerts() {
+  const [alerts, setAlerts] = useState<TrafficAlert[]>([]);
+  const storeRef = useRef<AlertStore | null>(null);
+  const voteStoreRef = useRef<VoteStore | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!storeRef.current) return;
+
+    try {
+      const stored = await storeRef.current.list();
+      setAlerts(stored.filter(alert => !isAlertExpired(alert)));
+    } catch (error) {
+      console.error('Error loading traffic alerts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    storeRef.current = getAlertStore();
+    voteStoreRef.current = getVoteStore();
+    refresh();
+
+    const interval = setInterval(refresh, ALERT_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const reportAlert = useCallback(async (type: AlertType, coordinates: Coordinates) => {
+    if (!storeRef.current) return null;
+
+    const alert = createAlert(type, coordinates, getDeviceId());
+    setAlerts(prev => [...prev, alert]);
+
+    try {
+      await storeRef.current.save(alert);
+      return alert;
+    } catch (error) {
+      console.error('Error saving traffic alert:', error);
+      setAlerts(prev => prev.filter(a => a.id !== alert.id));
+      return null;
+    }
+  }, []);
+
+  const voteOnAlert = useCallback(async (alert: TrafficAlert, vote: AlertVote['vote']) => {
+    if (!storeRef.current || !voteStoreRef.current) return;
+
+    try {
+      const updated = await submitVote(voteStoreRef.current, alert, {
+        alertId: alert.id,
+        voterId: getDeviceId(),
+        vote,
+        timestamp: Date.now(),
+      });
+
+      if (updated) {
+        await storeRef.current.save(updated);
+        setAlerts(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+      } else {
+        await storeRef.current.remove(alert.id);
+        setAlerts(prev => prev.filter(a => a.id !== alert.id));
+      }
+    } catch (error) {
+      console.error('Error voting on traffic alert:', error);
+    }
+  }, []);
+
+  return { alerts, reportAlert, voteOnAlert, refresh };
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TripStore, addRecentSearch, getTripStore, loadRecentSearches } from '@/lib/trip-history';
+import { PlaceSuggestion, Trip } from '@/types/navigation';
+
+export function useTripHistory() {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [recentSearches, setRecentSearches] = useState<PlaceSuggestion[]>([]);
+  const storeRef = useRef<TripStore | null>(null);
+
+  useEffect(() => {
+    storeRef.current = getTripStore();
+    storeRef.current
+      .list()
+      .then(setTrips)
+      .catch(error => console.error('Error loading trip history:', error));
+    setRecentSearches(loadRecentSearches());
+  }, []);
+
+  const recordTrip = useCallback(async (trip: Trip) => {
+    if (!storeRef.current) return;
+
+    setTrips(prev => [trip, ...prev.filter(t => t.id !== trip.id)]);
+    try {
+      await storeRef.current.save(trip);
+    } catch (error) {
+      console.error('Error saving trip:', error);
+    }
+  }, []);
+
+  const removeTrip = useCallback(async (id: string) => {
+    if (!storeRef.current) return;
+
+    setTrips(prev => prev.filter(trip => trip.id !== id));
+    try {
+      await storeRef.current.remove(id);
+    } catch (error) {
+      console.error('Error removing trip:', error);
+    }
+  }, []);
+
+  const clearTrips = useCallback(async () => {
+    if (!storeRef.current) return;
+
+    setTrips([]);
+    try {
+      await storeRef.current.clear();
+    } catch (error) {
+      console.error('Error clearing trip history:', error);
+    }
+  }, []);
+
+  const rememberSearch = useCallback((place: PlaceSuggestion) => {
+    setRecentSearches(addRecentSearch(place));
+  }, []);
+
+  return { trips, recentSearches, recordTrip, removeTrip, clearTrips, rememberSearch };
+}
@@ -0,0 +1,233 @@
+import { z } from 'zod';
+import { AlertVote, Coordinates, ReporterReputation, TrafficAlert } from '@/types/navigation';
+import { calculateDistance } from '@/lib/geometry';
+import { parseRows, supabase } from '@/lib/supabase';
+import { readLocal, writeLocal } from '@/lib/storage';
+
+export const CONFIRM_PROMPT_RADIUS = 100; // meters
+export const VALIDATION_WEIGHT = 2; // weighted confirmations needed to validate
+export const VALIDATION_CONFIDENCE = 0.7;
+export const REMOVAL_WEIGHT = 1.5; // weighted dismissals needed to remove
+export const REMOVAL_CONFIDENCE = 0.3;
+
+export interface AlertEvaluation {
+  confidence: number;
+  validated: boolean;
+  remove: boolean;
+  lastConfirmedAt: number | null;
+}
+
+export interface VoteStore {
+  listVotes(alertId: string): Promise<AlertVote[]>;
+  saveVote(vote: AlertVote): Promise<void>;
+  getReputation(reporterId: string): Promise<ReporterReputation>;
+  saveReputation(reputation: ReporterReputation): Promise<void>;
+}
+
+function emptyReputation(reporterId: string): ReporterReputation {
+  return { reporterId, confirmedReports: 0, dismissedReports: 0 };
+}
+
+// Laplace-smoothed share of a reporter's alerts that held up, mapped onto
+// 0.5–1.5 so a new reporter counts as 1 and nobody is ignored entirely.
+export function reputationWeight(reputation: ReporterReputation | undefined): number {
+  if (!reputation) return 1;
+
+  const { confirmedReports, dismissedReports } = reputation;
+  const accuracy = (confirmedReports + 1) / (confirmedReports + dismissedReports + 2);
+  return 0.5 + accuracy;
+}
+
+export function evaluateAlert(
+  alert: TrafficAlert,
+  votes: AlertVote[],
+  reputations: Record<string, ReporterReputation>
+): AlertEvaluation {
+  // The report itself counts as a confirmation from the reporter
+  let confirmWeight = reputationWeight(reputations[alert.reportedBy]);
+  let dismissWeight = 0;
+  let lastConfirmedAt: number | null = null;
+
+  for (const vote of votes) {
+    if (vote.voterId === alert.reportedBy) continue;
+
+    const weight = reputationWeight(reputations[vote.voterId]);
+    if (vote.vote === 'confirm') {
+      confirmWeight += weight;
+      lastConfirmedAt = Math.max(lastConfirmedAt ?? 0, vote.timestamp);
+    } else {
+      dismissWeight += weight;
+    }
+  }
+
+  const confidence = confirmWeight / (confirmWeight + dismissWeight);
+
+  return {
+    confidence,
+    validated: confirmWeight >= VALIDATION_WEIGHT && confidence >= VALIDATION_CONFIDENCE,
+    remove: dismissWeight >= REMOVAL_WEIGHT && confidence < REMOVAL_CONFIDENCE,
+    lastConfirmedAt,
+  };
+}
+
+export function findAlertToConfirm(
+  alerts: TrafficAlert[],
+  location: Coordinates,
+  voterId: string,
+  alreadyPrompted: Set<string>
+): TrafficAlert | null {
+  let nearest: TrafficAlert | null = null;
+  let nearestDistance = CONFIRM_PROMPT_RADIUS;
+
+  for (const alert of alerts) {
+    if (alert.reportedBy === voterId || alreadyPrompted.has(alert.id)) continue;
+
+    const distance = calculateDistance(location, alert.coordinates);
+    if (distance <= nearestDistance) {
+      nearest = alert;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+export function createLocalVoteStore(): VoteStore {
+  let votes = readLocal<AlertVote[]>('alert-votes', []);
+  let reputations = readLocal<Record<string, ReporterReputation>>('reporter-reputations', {});
+
+  return {
+    async listVotes(alertId) {
+      return votes.filter(vote => vote.alertId === alertId);
+    },
+    async saveVote(vote) {
+      votes = [
+        ...votes.filter(v => !(v.alertId === vote.alertId && v.voterId === vote.voterId)),
+        vote,
+      ];
+      writeLocal('alert-votes', votes);
+    },
+    async getReputation(reporterId) {
+      return reputations[reporterId] ?? emptyReputation(reporterId);
+    },
+    async saveReputation(reputation) {
+      reputations = { ...reputations, [reputation.reporterId]: reputation };
+      writeLocal('reporter-reputations', reputations);
+    },
+  };
+}
+
+const voteRowSchema = z.object({
+  alert_id: z.string(),
+  voter_id: z.string(),
+  vote: z.enum(['confirm', 'dismiss']),
+  timestamp: z.number(),
+});
+
+const reputationRowSchema = z.object({
+  reporter_id: z.string(),
+  confirmed_reports: z.number().int().min(0),
+  dismissed_reports: z.number().int().min(0),
+});
+
+type VoteRow = z.infer<typeof voteRowSchema>;
+type ReputationRow = z.infer<typeof reputationRowSchema>;
+
+function rowToVote(row: VoteRow): AlertVote {
+  return { alertId: row.alert_id, voterId: row.voter_id, vote: row.vote, timestamp: row.timestamp };
+}
+
+function voteToRow(vote: AlertVote): VoteRow {
+  return { alert_id: vote.alertId, voter_id: vote.voterId, vote: vote.vote, timestamp: vote.timestamp };
+}
+
+// Expects `alert_votes` (unique on alert_id + voter_id) and `reporter_reputations`
+// tables with the columns of VoteRow and ReputationRow
+export function createSupabaseVoteStore(): VoteStore {
+  if (!supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  const client = supabase;
+
+  return {
+    async listVotes(alertId) {
+      const { data, error } = await client.from('alert_votes').select('*').eq('alert_id', alertId);
+      if (error) throw error;
+
+      return parseRows(voteRowSchema, data).map(rowToVote);
+    },
+    async saveVote(vote) {
+      const { error } = await client
+        .from('alert_votes')
+        .upsert(voteToRow(vote), { onConflict: 'alert_id,voter_id' });
+      if (error) throw error;
+    },
+    async getReputation(reporterId) {
+      const { data, error } = await client
+        .from('reporter_reputations')
+        .select('*')
+        .eq('reporter_id', reporterId)
+        .maybeSingle();
+      if (error) throw error;
+
+      // A malformed row counts as no history rather than failing the vote
+      const [row] = parseRows(reputationRowSchema, data ? [data] : null);
+      return row
+        ? {
+            reporterId,
+            confirmedReports: row.confirmed_reports,
+            dismissedReports: row.dismissed_reports,
+          }
+        : emptyReputation(reporterId);
+    },
+    async saveReputation(reputation) {
+      const row: ReputationRow = {
+        reporter_id: reputation.reporterId,
+        confirmed_reports: reputation.confirmedReports,
+        dismissed_reports: reputation.dismissedReports,
+      };
+      const { error } = await client.from('reporter_reputations').upsert(row);
+      if (error) throw error;
+    },
+  };
+}
+
+export function getVoteStore(): VoteStore {
+  return supabase ? createSupabaseVoteStore() : createLocalVoteStore();
+}
+
+// Records a vote and applies its outcome: returns the updated alert, or null
+// when the alert should be removed.
+export async function submitVote(
+  store: VoteStore,
+  alert: TrafficAlert,
+  vote: AlertVote
+): Promise<TrafficAlert | null> {
+  await store.saveVote(vote);
+
+  const votes = await store.listVotes(alert.id);
+  const voterIds = new Set([alert.reportedBy, ...votes.map(v => v.voterId)]);
+  const reputations: Record<string, ReporterReputation> = {};
+  for (const id of voterIds) {
+    reputations[id] = await store.getReputation(id);
+  }
+
+  const evaluation = evaluateAlert(alert, votes, reputations);
+  const reporter = reputations[alert.reportedBy];
+
+  if (evaluation.remove) {
+    await store.saveReputation({ ...reporter, dismissedReports: reporter.dismissedReports + 1 });
+    return null;
+  }
+
+  if (evaluation.validated && !alert.validated) {
+    await store.saveReputation({ ...reporter, confirmedReports: reporter.confirmedReports + 1 });
+  }
+
+  return {
+    ...alert,
+    validated: evaluation.validated,
+    // A fresh confirmation restarts the expiry clock
+    timestamp: Math.max(alert.timestamp, evaluation.lastConfirmedAt ?? 0),
+  };
+}
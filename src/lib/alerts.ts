@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { Coordinates, TrafficAlert } from '@/types/navigation';
+import { parseRows, supabase } from '@/lib/supabase';
+import { readLocal, writeLocal } from '@/lib/storage';
+
+export type AlertType = TrafficAlert['type'];
+
+export const alertTypes: Record<AlertType, { label: string; icon: string; color: string; ttl: number }> = {
+  accident: { label: 'Acidente', icon: '💥', color: '#dc2626', ttl: 2 * 60 * 60 * 1000 },
+  police: { label: 'Polícia', icon: '🚓', color: '#2563eb', ttl: 60 * 60 * 1000 },
+  construction: { label: 'Obra', icon: '🚧', color: '#ea580c', ttl: 24 * 60 * 60 * 1000 },
+  hazard: { label: 'Perigo', icon: '⚠️', color: '#ca8a04', ttl: 60 * 60 * 1000 },
+};
+
+export interface AlertStore {
+  list(): Promise<TrafficAlert[]>;
+  save(alert: TrafficAlert): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export function isAlertExpired(alert: TrafficAlert, now: number = Date.now()): boolean {
+  return now - alert.timestamp > alertTypes[alert.type].ttl;
+}
+
+export function createAlert(
+  type: AlertType,
+  coordinates: Coordinates,
+  reportedBy: string,
+  description: string = alertTypes[type].label
+): TrafficAlert {
+  return {
+    id: `alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    coordinates,
+    description,
+    timestamp: Date.now(),
+    reportedBy,
+    validated: false,
+  };
+}
+
+// localStorage-backed store for development; falls back to memory during SSR
+export function createLocalAlertStore(storageKey: string = 'alerts'): AlertStore {
+  let alerts = readLocal<TrafficAlert[]>(storageKey, []);
+
+  const persist = () => writeLocal(storageKey, alerts);
+
+  return {
+    async list() {
+      alerts = alerts.filter(alert => !isAlertExpired(alert));
+      persist();
+      return [...alerts];
+    },
+    async save(alert) {
+      alerts = [...alerts.filter(a => a.id !== alert.id), alert];
+      persist();
+    },
+    async remove(id) {
+      alerts = alerts.filter(alert => alert.id !== id);
+      persist();
+    },
+  };
+}
+
+const alertRowSchema = z.object({
+  id: z.string(),
+  type: z.enum(Object.keys(alertTypes) as [AlertType, ...AlertType[]]),
+  lng: z.number(),
+  lat: z.number(),
+  description: z.string(),
+  timestamp: z.number(),
+  reported_by: z.string(),
+  validated: z.boolean(),
+});
+
+type AlertRow = z.infer<typeof alertRowSchema>;
+
+function rowToAlert(row: AlertRow): TrafficAlert {
+  return {
+    id: row.id,
+    type: row.type,
+    coordinates: { lng: row.lng, lat: row.lat },
+    description: row.description,
+    timestamp: row.timestamp,
+    reportedBy: row.reported_by,
+    validated: row.validated,
+  };
+}
+
+function alertToRow(alert: TrafficAlert): AlertRow {
+  return {
+    id: alert.id,
+    type: alert.type,
+    lng: alert.coordinates.lng,
+    lat: alert.coordinates.lat,
+    description: alert.description,
+    timestamp: alert.timestamp,
+    reported_by: alert.reportedBy,
+    validated: alert.validated,
+  };
+}
+
+// Expects a `traffic_alerts` table with the columns of AlertRow
+export function createSupabaseAlertStore(table: string = 'traffic_alerts'): AlertStore {
+  if (!supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  const client = supabase;
+
+  return {
+    async list() {
+      const oldestTtl = Math.max(...Object.values(alertTypes).map(type => type.ttl));
+      const { data, error } = await client
+        .from(table)
+        .select('*')
+        .gte('timestamp', Date.now() - oldestTtl);
+
+      if (error) throw error;
+      return parseRows(alertRowSchema, data).map(rowToAlert).filter(alert => !isAlertExpired(alert));
+    },
+    async save(alert) {
+      const { error } = await client.from(table).upsert(alertToRow(alert));
+      if (error) throw error;
+    },
+    async remove(id) {
+      const { error } = await client.from(table).delete().eq('id', id);
+      if (error) throw error;
+    },
+  };
+}
+
+export function getAlertStore(): AlertStore {
+  return supabase ? createSupabaseAlertStore() : createLocalAlertStore();
+}
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+
+const MAX_RETRIES = 2;
+const BASE_BACKOFF = 500; // ms, doubled on every retry
+const MAX_BACKOFF = 10000; // ms
+
+export type ApiErrorKind = 'no-route' | 'invalid-token' | 'rate-limit' | 'network' | 'invalid-response';
+
+// Shared by every routing, geocoding, CEP and POI backend; `service` names the
+// one that failed ("Mapbox", "OSRM", "ViaCEP"...) so messages point at it
+export class ApiError extends Error {
+  constructor(
+    public kind: ApiErrorKind,
+    message: string,
+    public service: string,
+    public status: number | null = null,
+    public retryAfter: number | null = null // ms, from the rate limit headers
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function isApiError(error: unknown, kind?: ApiErrorKind): error is ApiError {
+  return error instanceof ApiError && (kind === undefined || error.kind === kind);
+}
+
+export function describeApiError(error: unknown): string {
+  if (!(error instanceof ApiError)) {
+    return 'Algo deu errado. Tente novamente.';
+  }
+
+  switch (error.kind) {
+    case 'no-route':
+      return 'Nenhuma rota encontrada entre esses pontos.';
+    case 'invalid-token':
+      return `O ${error.service} recusou a chave de acesso. Verifique a configuração.`;
+    case 'rate-limit':
+      return `Muitas solicitações ao ${error.service}. Aguarde alguns segundos.`;
+    case 'network':
+      return `Sem conexão com o ${error.service}. Verifique sua internet ou tente mais tarde.`;
+    case 'invalid-response':
+      return `O ${error.service} respondeu de forma inesperada.`;
+  }
+}
+
+// Mapbox Directions and OSRM report routing failures as a `code`, sometimes
+// with HTTP 200
+export function directionsCodeError(
+  code: string,
+  message: string | undefined,
+  service: string,
+  status: number | null = null
+): ApiError {
+  const kind: ApiErrorKind = ['NoRoute', 'NoSegment', 'InvalidInput'].includes(code)
+    ? 'no-route'
+    : code === 'InvalidToken'
+      ? 'invalid-token'
+      : 'invalid-response';
+  return new ApiError(kind, message ?? code, service, status);
+}
+
+function readRetryAfter(response: Response): number | null {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  if (retryAfter > 0) return retryAfter * 1000;
+
+  // Mapbox sends the epoch second at which the window resets
+  const reset = Number(response.headers.get('x-rate-limit-reset'));
+  return reset > 0 ? Math.max(0, reset * 1000 - Date.now()) : null;
+}
+
+async function attemptRequest<T>(
+  url: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  service: string
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new ApiError('network', (error as Error).message, service);
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new ApiError('invalid-token', `${service} rejected the access token`, service, response.status);
+  }
+  if (response.status === 429) {
+    throw new ApiError('rate-limit', `${service} rate limit exceeded`, service, 429, readRetryAfter(response));
+  }
+  if (response.status >= 500) {
+    throw new ApiError('network', `${service} responded ${response.status}`, service, response.status);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new ApiError('invalid-response', `${service} response is not JSON`, service, response.status);
+  }
+
+  if (!response.ok) {
+    const { code, message } = (body ?? {}) as { code?: string; message?: string };
+    if (code) throw directionsCodeError(code, message, service, response.status);
+    throw new ApiError(
+      'invalid-response',
+      message ?? `${service} responded ${response.status}`,
+      service,
+      response.status
+    );
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new ApiError('invalid-response', parsed.error.message, service, response.status);
+  }
+  return parsed.data;
+}
+
+// Network failures and rate limits are retried with exponential backoff;
+// everything else fails straight away since repeating it cannot help.
+export async function requestJson<T>(
+  url: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  service: string,
+  retries: number = MAX_RETRIES
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest(url, schema, service);
+    } catch (error) {
+      const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+      const retriable = isApiError(error, 'network') || isApiError(error, 'rate-limit');
+      if (!retriable || offline || attempt >= retries) throw error;
+
+      const backoff = (error as ApiError).retryAfter ?? BASE_BACKOFF * 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, Math.min(backoff, MAX_BACKOFF)));
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { Place } from '@/types/navigation';
+
+const STATE_CODES: Record<string, string> = {
+  acre: 'AC',
+  alagoas: 'AL',
+  amapa: 'AP',
+  amazonas: 'AM',
+  bahia: 'BA',
+  ceara: 'CE',
+  'distrito federal': 'DF',
+  'espirito santo': 'ES',
+  goias: 'GO',
+  maranhao: 'MA',
+  'mato grosso': 'MT',
+  'mato grosso do sul': 'MS',
+  'minas gerais': 'MG',
+  para: 'PA',
+  paraiba: 'PB',
+  parana: 'PR',
+  pernambuco: 'PE',
+  piaui: 'PI',
+  'rio de janeiro': 'RJ',
+  'rio grande do norte': 'RN',
+  'rio grande do sul': 'RS',
+  rondonia: 'RO',
+  roraima: 'RR',
+  'santa catarina': 'SC',
+  'sao paulo': 'SP',
+  sergipe: 'SE',
+  tocantins: 'TO',
+};
+
+// Case, accents and spacing vary between geocoders and the Correios data
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// UF from a state name ("São Paulo") or an ISO code ("BR-SP"); other
+// countries' regions are kept as given
+export function toStateCode(state: string | undefined): string | undefined {
+  if (!state) return undefined;
+
+  const iso = state.match(/^BR-([A-Z]{2})$/i);
+  if (iso) return iso[1].toUpperCase();
+
+  return STATE_CODES[normalizeName(state)] ?? state;
+}
+
+export function isSameStreet(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && normalizeName(a) === normalizeName(b);
+}
+
+// "01310100" or "01310-100" as "01310-100"; anything else is not a CEP
+export function formatCep(value: string | undefined): string | undefined {
+  const digits = value?.replace(/\D/g, '') ?? '';
+  return digits.length === 8 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : undefined;
+}
+
+// The way Correios writes it: "Avenida Paulista, 1578 - Bela Vista, São Paulo - SP, 01310-200"
+export function formatPlaceLabel(
+  place: Pick<Place, 'street' | 'number' | 'neighborhood' | 'city' | 'state' | 'postalCode'>,
+  name?: string
+): string {
+  const street = [place.street, place.number].filter(Boolean).join(', ');
+  const city = [place.city, place.state].filter(Boolean).join(' - ');
+  const address = [[street, place.neighborhood].filter(Boolean).join(' - '), city, place.postalCode]
+    .filter(Boolean)
+    .join(', ');
+
+  return name && name !== place.street ? [name, address].filter(Boolean).join(', ') : address;
+}
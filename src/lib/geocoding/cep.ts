@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { requestJson } from '@/lib/api-client';
+import { formatCep } from '@/lib/geocoding/address';
+import cepFixture from '@/data/ceps.fixture.json';
+
+const DEFAULT_VIACEP_URL = 'https://viacep.com.br/ws';
+
+// "01310-100" or "01310100", optionally followed by a house number: "01310-100, 1578"
+const CEP_PATTERN = /^\s*(\d{5})[-.\s]?(\d{3})\s*(?:[,\s]\s*(?:n[º°o.]?\s*)?(\d+[a-z]?))?\s*$/i;
+
+export interface CepAddress {
+  cep: string; // "00000-000"
+  street?: string; // empty for CEPs that cover a whole small town
+  neighborhood?: string;
+  city: string;
+  state: string; // UF
+}
+
+// A CEP typed where an address was expected, with the number when it was given too
+export function detectCep(text: string): { cep: string; number?: string } | null {
+  const match = text.match(CEP_PATTERN);
+  if (!match) return null;
+  return { cep: `${match[1]}-${match[2]}`, number: match[3] };
+}
+
+export interface CepProvider {
+  // Null when the CEP does not exist
+  lookup(cep: string): Promise<CepAddress | null>;
+}
+
+const viaCepAddressSchema = z.object({
+  cep: z.string(),
+  logradouro: z.string().default(''),
+  bairro: z.string().default(''),
+  localidade: z.string(),
+  uf: z.string(),
+});
+
+// Unknown CEPs come back as 200 with `erro`, a boolean or (in older versions) a string
+const viaCepResponseSchema = z.union([z.object({ erro: z.union([z.boolean(), z.string()]) }), viaCepAddressSchema]);
+
+function toCepAddress(entry: z.infer<typeof viaCepAddressSchema>): CepAddress {
+  return {
+    cep: formatCep(entry.cep) ?? entry.cep,
+    street: entry.logradouro || undefined,
+    neighborhood: entry.bairro || undefined,
+    city: entry.localidade,
+    state: entry.uf,
+  };
+}
+
+// ViaCEP or any service answering in its format, such as a self-hosted mirror
+export function createViaCepProvider(baseUrl: string = DEFAULT_VIACEP_URL): CepProvider {
+  return {
+    async lookup(cep) {
+      const digits = cep.replace(/\D/g, '');
+      const data = await requestJson(`${baseUrl}/${digits}/json/`, viaCepResponseSchema, 'ViaCEP');
+      return 'erro' in data ? null : toCepAddress(data);
+    },
+  };
+}
+
+// Bundled ViaCEP answers so development and tests need no network
+export function createFixtureCepProvider(entries: unknown = cepFixture): CepProvider {
+  const addresses = z.array(viaCepAddressSchema).parse(entries).map(toCepAddress);
+
+  return {
+    async lookup(cep) {
+      return addresses.find(address => address.cep === formatCep(cep)) ?? null;
+    },
+  };
+}
+
+let defaultProvider: CepProvider | null = null;
+
+export function getCepProvider(): CepProvider {
+  if (!defaultProvider) {
+    defaultProvider =
+      process.env.NEXT_PUBLIC_CEP_PROVIDER === 'fixture'
+        ? createFixtureCepProvider()
+        : createViaCepProvider(process.env.NEXT_PUBLIC_VIACEP_URL);
+  }
+  return defaultProvider;
+}
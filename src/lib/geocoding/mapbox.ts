@@ -0,0 +1,48 @@
+import { Place } from '@/types/navigation';
+import { requestJson } from '@/lib/api-client';
+import { GeocodingFeature, geocodingResponseSchema } from '@/lib/mapbox-client';
+import { formatCep, toStateCode } from '@/lib/geocoding/address';
+import type { GeocodingProvider } from '@/lib/geocoding/provider';
+
+// Context entries are ids like "neighborhood.123"; the prefix names the kind of area
+function contextText(feature: GeocodingFeature, ...kinds: string[]) {
+  return feature.context.find(entry => kinds.some(kind => entry.id.startsWith(`${kind}.`)));
+}
+
+export function toPlace(feature: GeocodingFeature): Place {
+  const isAddress = feature.place_type.includes('address');
+  const region = contextText(feature, 'region');
+
+  return {
+    id: feature.id,
+    label: feature.place_name,
+    street: isAddress ? feature.text : feature.properties?.address,
+    number: isAddress ? feature.address : undefined,
+    neighborhood: contextText(feature, 'neighborhood', 'locality')?.text,
+    city: contextText(feature, 'place')?.text,
+    state: toStateCode(region?.short_code ?? region?.text),
+    postalCode: formatCep(contextText(feature, 'postcode')?.text),
+    coordinates: { lng: feature.center[0], lat: feature.center[1] },
+    relevance: feature.relevance,
+  };
+}
+
+// Mapbox Geocoding v5 through our /api routes, which hold the secret token
+export function createMapboxGeocodingProvider(): GeocodingProvider {
+  return {
+    async search(query, { proximity, limit, autocomplete = false }) {
+      // Explicit searches want whole-word matches, not prefix completions
+      const params = new URLSearchParams({ q: query, limit: String(limit), autocomplete: String(autocomplete) });
+      if (proximity) params.set('proximity', `${proximity.lng},${proximity.lat}`);
+
+      const data = await requestJson(`/api/geocode?${params}`, geocodingResponseSchema, 'Mapbox');
+      return data.features.map(toPlace);
+    },
+    async reverse({ lng, lat }) {
+      const params = new URLSearchParams({ lng: String(lng), lat: String(lat) });
+
+      const data = await requestJson(`/api/reverse-geocode?${params}`, geocodingResponseSchema, 'Mapbox');
+      return data.features[0] ? toPlace(data.features[0]) : null;
+    },
+  };
+}
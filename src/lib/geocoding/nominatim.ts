@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { Place } from '@/types/navigation';
+import { requestJson } from '@/lib/api-client';
+import { formatCep, formatPlaceLabel, toStateCode } from '@/lib/geocoding/address';
+import type { GeocodingProvider } from '@/lib/geocoding/provider';
+
+const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const VIEWBOX_SIZE = 0.5; // degrees around the proximity point
+
+const nominatimPlaceSchema = z.object({
+  place_id: z.number(),
+  lat: z.coerce.number(),
+  lon: z.coerce.number(),
+  name: z.string().optional(),
+  display_name: z.string(),
+  importance: z.number().optional(),
+  address: z.record(z.string()).default({}),
+});
+
+type NominatimPlace = z.infer<typeof nominatimPlaceSchema>;
+
+// Reverse lookups with no match answer 200 with an `error` field instead
+const nominatimReverseSchema = z.union([nominatimPlaceSchema, z.object({ error: z.string() })]);
+
+function toPlace({ place_id, lat, lon, name, display_name, importance, address }: NominatimPlace): Place {
+  const parts = {
+    street: address.road ?? address.pedestrian ?? address.footway,
+    number: address.house_number,
+    // OSM tags Brazilian bairros inconsistently
+    neighborhood: address.suburb ?? address.neighbourhood ?? address.city_district ?? address.quarter,
+    city: address.city ?? address.town ?? address.village ?? address.municipality,
+    state: toStateCode(address['ISO3166-2-lvl4'] ?? address.state),
+    postalCode: formatCep(address.postcode),
+  };
+
+  return {
+    id: `nominatim-${place_id}`,
+    label: formatPlaceLabel(parts, name) || display_name,
+    ...parts,
+    coordinates: { lng: lon, lat },
+    relevance: importance ?? 0,
+  };
+}
+
+// OpenStreetMap's Nominatim, public or self-hosted. The public instance allows
+// about one request per second and forbids autocomplete, so it only answers
+// explicit searches and reverse lookups; prefer it as a fallback.
+export function createNominatimGeocodingProvider(baseUrl: string = DEFAULT_NOMINATIM_URL): GeocodingProvider {
+  const baseParams = { format: 'jsonv2', addressdetails: '1', 'accept-language': 'pt-BR' };
+
+  return {
+    async search(query, { proximity, limit, autocomplete }) {
+      if (autocomplete) return [];
+
+      const params = new URLSearchParams({ ...baseParams, q: query, limit: String(limit) });
+      if (proximity) {
+        // A viewbox without `bounded` only biases the ranking
+        params.set(
+          'viewbox',
+          [
+            proximity.lng - VIEWBOX_SIZE,
+            proximity.lat + VIEWBOX_SIZE,
+            proximity.lng + VIEWBOX_SIZE,
+            proximity.lat - VIEWBOX_SIZE,
+          ].join(',')
+        );
+      }
+
+      const data = await requestJson(`${baseUrl}/search?${params}`, z.array(nominatimPlaceSchema), 'Nominatim');
+      return data.map(toPlace);
+    },
+    async reverse({ lng, lat }) {
+      const params = new URLSearchParams({ ...baseParams, lat: String(lat), lon: String(lng) });
+
+      const data = await requestJson(`${baseUrl}/reverse?${params}`, nominatimReverseSchema, 'Nominatim');
+      return 'error' in data ? null : toPlace(data);
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { Place } from '@/types/navigation';
+import { requestJson } from '@/lib/api-client';
+import { formatCep, formatPlaceLabel, toStateCode } from '@/lib/geocoding/address';
+import type { GeocodingProvider } from '@/lib/geocoding/provider';
+
+const DEFAULT_PHOTON_URL = 'https://photon.komoot.io';
+
+const photonResponseSchema = z.object({
+  features: z.array(
+    z.object({
+      geometry: z.object({ coordinates: z.tuple([z.number(), z.number()]) }),
+      properties: z.object({
+        osm_type: z.string().optional(),
+        osm_id: z.number().optional(),
+        name: z.string().optional(),
+        street: z.string().optional(),
+        housenumber: z.string().optional(),
+        district: z.string().optional(),
+        locality: z.string().optional(),
+        city: z.string().optional(),
+        state: z.string().optional(),
+        postcode: z.string().optional(),
+      }),
+    })
+  ),
+});
+
+type PhotonFeature = z.infer<typeof photonResponseSchema>['features'][number];
+
+// Photon returns no score, only an order, so relevance falls with the rank
+function toPlace({ geometry, properties }: PhotonFeature, index: number, count: number): Place {
+  const [lng, lat] = geometry.coordinates;
+  const parts = {
+    // Photon puts the street of an address feature in `name`
+    street: properties.street ?? (properties.housenumber ? properties.name : undefined),
+    number: properties.housenumber,
+    neighborhood: properties.district ?? properties.locality,
+    city: properties.city,
+    state: toStateCode(properties.state),
+    postalCode: formatCep(properties.postcode),
+  };
+
+  return {
+    id: `photon-${properties.osm_type ?? ''}${properties.osm_id ?? `${lng},${lat}`}`,
+    label: formatPlaceLabel(parts, properties.name),
+    ...parts,
+    coordinates: { lng, lat },
+    relevance: 1 - index / count,
+  };
+}
+
+// Komoot's Photon (OpenStreetMap data, built for search-as-you-type), public or self-hosted
+export function createPhotonGeocodingProvider(baseUrl: string = DEFAULT_PHOTON_URL): GeocodingProvider {
+  return {
+    async search(query, { proximity, limit }) {
+      const params = new URLSearchParams({ q: query, limit: String(limit) });
+      if (proximity) {
+        params.set('lon', String(proximity.lng));
+        params.set('lat', String(proximity.lat));
+      }
+
+      const { features } = await requestJson(`${baseUrl}/api?${params}`, photonResponseSchema, 'Photon');
+      return features.map((feature, index) => toPlace(feature, index, features.length));
+    },
+    async reverse({ lng, lat }) {
+      const params = new URLSearchParams({ lon: String(lng), lat: String(lat), limit: '1' });
+
+      const { features } = await requestJson(`${baseUrl}/reverse?${params}`, photonResponseSchema, 'Photon');
+      return features[0] ? toPlace(features[0], 0, 1) : null;
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { Coordinates, Place } from '@/types/navigation';
+import { createMapboxGeocodingProvider } from '@/lib/geocoding/mapbox';
+import { createNominatimGeocodingProvider } from '@/lib/geocoding/nominatim';
+import { createPhotonGeocodingProvider } from '@/lib/geocoding/photon';
+
+export interface GeocodingSearchOptions {
+  // Results near this point rank higher
+  proximity?: Coordinates | null;
+  limit: number;
+  // Set while the user is still typing; providers whose usage policy forbids
+  // search-as-you-type answer with no results
+  autocomplete?: boolean;
+}
+
+// Like routing, failures are reported as ApiError whatever the backend
+export interface GeocodingProvider {
+  search(query: string, options: GeocodingSearchOptions): Promise<Place[]>;
+  reverse(coordinates: Coordinates): Promise<Place | null>;
+}
+
+export type GeocodingProviderName = 'mapbox' | 'nominatim' | 'photon';
+
+export function createGeocodingProvider(name: GeocodingProviderName): GeocodingProvider {
+  switch (name) {
+    case 'nominatim':
+      return createNominatimGeocodingProvider(process.env.NEXT_PUBLIC_NOMINATIM_URL);
+    case 'photon':
+      return createPhotonGeocodingProvider(process.env.NEXT_PUBLIC_PHOTON_URL);
+    case 'mapbox':
+      return createMapboxGeocodingProvider();
+  }
+}
+
+// Asks each provider in turn until one has results. A failing provider is
+// skipped too; its error is only thrown if no later provider finds anything.
+export function createFallbackGeocodingProvider(providers: GeocodingProvider[]): GeocodingProvider {
+  const firstWithResult = async <T>(
+    attempt: (provider: GeocodingProvider) => Promise<T>,
+    isEmpty: (result: T) => boolean,
+    empty: T
+  ): Promise<T> => {
+    let firstError: unknown = null;
+
+    for (const provider of providers) {
+      try {
+        const result = await attempt(provider);
+        if (!isEmpty(result)) return result;
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (firstError) throw firstError;
+    return empty;
+  };
+
+  return {
+    search(query, options) {
+      return firstWithResult(provider => provider.search(query, options), places => places.length === 0, []);
+    },
+    reverse(coordinates) {
+      return firstWithResult(provider => provider.reverse(coordinates), place => place === null, null);
+    },
+  };
+}
+
+let defaultProvider: GeocodingProvider | null = null;
+
+// NEXT_PUBLIC_GEOCODING_PROVIDERS lists the chain in order, e.g. "mapbox,nominatim";
+// Mapbox alone when unset
+export function getGeocodingProvider(): GeocodingProvider {
+  if (!defaultProvider) {
+    const known: GeocodingProviderName[] = ['mapbox', 'nominatim', 'photon'];
+    const names = (process.env.NEXT_PUBLIC_GEOCODING_PROVIDERS ?? '')
+      .split(',')
+      .map(name => name.trim())
+      .filter((name): name is GeocodingProviderName => known.includes(name as GeocodingProviderName));
+
+    const providers = (names.length > 0 ? names : ['mapbox' as const]).map(createGeocodingProvider);
+    defaultProvider = providers.length === 1 ? providers[0] : createFallbackGeocodingProvider(providers);
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,69 @@
+import { Coordinates } from '@/types/navigation';
+
+export const CURRENT_LOCATION_ID = 'current-location';
+export const CURRENT_LOCATION_LABEL = 'Minha localização';
+
+const FRESH_FIX_TIMEOUT = 15000; // ms
+const REQUIRED_ACCURACY = 100; // meters
+
+export class GeolocationUnavailableError extends Error {
+  constructor(public code: number | null, message: string) {
+    super(message);
+    this.name = 'GeolocationUnavailableError';
+  }
+}
+
+export function describeGeolocationError(code: number | null): string {
+  switch (code) {
+    case 1: // PERMISSION_DENIED
+      return 'Permissão de localização negada. Digite a origem manualmente.';
+    case 2: // POSITION_UNAVAILABLE
+      return 'Não foi possível determinar sua localização. Digite a origem manualmente.';
+    case 3: // TIMEOUT
+      return 'A localização demorou demais para responder. Tente novamente ou digite a origem.';
+    default:
+      return 'Geolocalização não é suportada neste navegador. Digite a origem manualmente.';
+  }
+}
+
+export function getCurrentPosition(options?: PositionOptions): Promise<GeolocationPosition> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new GeolocationUnavailableError(null, describeGeolocationError(null)));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(resolve, (error) => {
+      reject(new GeolocationUnavailableError(error.code, describeGeolocationError(error.code)));
+    }, options);
+  });
+}
+
+// A cached or coarse (cell/Wi-Fi) fix can be hundreds of meters off, which
+// would start the route on the wrong street, so insist on a new GPS reading
+// and retry once if the first one is still imprecise. A failed retry still
+// returns the imprecise fix; only failing to get any fix rejects.
+export async function getFreshLocation(attempts: number = 2): Promise<Coordinates> {
+  let best: GeolocationPosition | null = null;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    let position: GeolocationPosition;
+    try {
+      position = await getCurrentPosition({
+        enableHighAccuracy: true,
+        maximumAge: 0,
+        timeout: FRESH_FIX_TIMEOUT,
+      });
+    } catch (error) {
+      if (!best) throw error;
+      break;
+    }
+
+    if (!best || position.coords.accuracy < best.coords.accuracy) {
+      best = position;
+    }
+    if (best.coords.accuracy <= REQUIRED_ACCURACY) break;
+  }
+
+  return { lng: best!.coords.longitude, lat: best!.coords.latitude };
+}
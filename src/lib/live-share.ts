@@ -0,0 +1,150 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { LiveTripUpdate } from '@/types/navigation';
+import { supabase } from '@/lib/supabase';
+import { readLocal, writeLocal } from '@/lib/storage';
+
+export const LIVE_UPDATE_INTERVAL = 5000; // ms between published positions
+
+export interface LiveShareTransport {
+  publish(update: LiveTripUpdate): Promise<void>;
+  // Returns an unsubscribe function
+  subscribe(sessionId: string, onUpdate: (update: LiveTripUpdate) => void): () => void;
+  close(sessionId: string): void;
+}
+
+const lngLatSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+const liveTripUpdateSchema = z.object({
+  sessionId: z.string(),
+  location: z.object({ lng: z.number().min(-180).max(180), lat: z.number().min(-90).max(90) }),
+  remainingDistance: z.number().min(0),
+  remainingDuration: z.number().min(0),
+  destinationLabel: z.string(),
+  geometry: z.array(lngLatSchema),
+  timestamp: z.number(),
+  ended: z.boolean(),
+});
+
+// Anyone who knows the session id can broadcast on its channel, so viewers
+// only accept well-formed updates for the session they are watching
+function parseLiveTripUpdate(payload: unknown, sessionId?: string): LiveTripUpdate | null {
+  const parsed = liveTripUpdateSchema.safeParse(payload);
+  if (!parsed.success || (sessionId && parsed.data.sessionId !== sessionId)) return null;
+  return parsed.data;
+}
+
+export function createShareSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `trip-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function buildLiveShareUrl(sessionId: string, origin: string): string {
+  return `${origin}/share/${sessionId}`;
+}
+
+// For development and tests: listeners in the same page are called directly,
+// other tabs are reached through BroadcastChannel, and the last update is kept
+// in localStorage so a viewer opened mid-trip has something to show at once.
+export function createLocalLiveShareTransport(): LiveShareTransport {
+  const listeners = new Map<string, Set<(update: LiveTripUpdate) => void>>();
+  const channel =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('tumaps-live-share') : null;
+
+  const notify = (update: LiveTripUpdate) => {
+    listeners.get(update.sessionId)?.forEach(listener => listener(update));
+  };
+
+  channel?.addEventListener('message', (event: MessageEvent<unknown>) => {
+    const update = parseLiveTripUpdate(event.data);
+    if (update) notify(update);
+  });
+
+  return {
+    async publish(update) {
+      writeLocal(`live-share:${update.sessionId}`, update);
+      notify(update);
+      channel?.postMessage(update);
+    },
+    subscribe(sessionId, onUpdate) {
+      const sessionListeners = listeners.get(sessionId) ?? new Set();
+      sessionListeners.add(onUpdate);
+      listeners.set(sessionId, sessionListeners);
+
+      const last = parseLiveTripUpdate(readLocal<unknown>(`live-share:${sessionId}`, null), sessionId);
+      if (last) onUpdate(last);
+
+      return () => {
+        sessionListeners.delete(onUpdate);
+      };
+    },
+    close(sessionId) {
+      listeners.delete(sessionId);
+    },
+  };
+}
+
+// Supabase Realtime broadcast: nothing is stored, so a viewer that joins
+// mid-trip waits for the next update (at most LIVE_UPDATE_INTERVAL).
+export function createSupabaseLiveShareTransport(): LiveShareTransport {
+  if (!supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  const client = supabase;
+  const publishers = new Map<string, Promise<RealtimeChannel>>();
+
+  // A channel must finish subscribing before it can broadcast
+  const join = (sessionId: string): Promise<RealtimeChannel> => {
+    const existing = publishers.get(sessionId);
+    if (existing) return existing;
+
+    const joined = new Promise<RealtimeChannel>((resolve, reject) => {
+      const channel = client.channel(`live-trip:${sessionId}`);
+      channel.subscribe(status => {
+        if (status === 'SUBSCRIBED') resolve(channel);
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          publishers.delete(sessionId);
+          client.removeChannel(channel);
+          reject(new Error(`Live share channel ${status.toLowerCase()}`));
+        }
+      });
+    });
+    publishers.set(sessionId, joined);
+    return joined;
+  };
+
+  return {
+    async publish(update) {
+      const channel = await join(update.sessionId);
+      await channel.send({ type: 'broadcast', event: 'update', payload: update });
+    },
+    subscribe(sessionId, onUpdate) {
+      const channel = client
+        .channel(`live-trip:${sessionId}`)
+        .on('broadcast', { event: 'update' }, ({ payload }) => {
+          const update = parseLiveTripUpdate(payload, sessionId);
+          if (update) onUpdate(update);
+        })
+        .subscribe();
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+    close(sessionId) {
+      publishers.get(sessionId)?.then(channel => client.removeChannel(channel)).catch(() => {});
+      publishers.delete(sessionId);
+    },
+  };
+}
+
+let defaultTransport: LiveShareTransport | null = null;
+
+export function getLiveShareTransport(): LiveShareTransport {
+  if (!defaultTransport) {
+    const useLocal = process.env.NEXT_PUBLIC_LIVE_SHARE_TRANSPORT === 'local' || !supabase;
+    defaultTransport = useLocal ? createLocalLiveShareTransport() : createSupabaseLiveShareTransport();
+  }
+  return defaultTransport;
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+// Mapbox response schemas, which OSRM and the route fixture share for routes
+
+const positionSchema = z.tuple([z.number(), z.number()]);
+
+const directionsStepSchema = z.object({
+  distance: z.number(),
+  duration: z.number(),
+  mode: z.string().optional(),
+  maneuver: z.object({
+    instruction: z.string(),
+    type: z.string(),
+    modifier: z.string().optional(),
+    location: positionSchema,
+  }),
+  intersections: z.array(z.object({ classes: z.array(z.string()).optional() })).optional(),
+});
+
+const directionsRouteSchema = z.object({
+  distance: z.number(),
+  duration: z.number(),
+  geometry: z.object({ coordinates: z.array(positionSchema) }),
+  legs: z.array(
+    z.object({
+      distance: z.number(),
+      duration: z.number(),
+      steps: z.array(directionsStepSchema),
+    })
+  ),
+});
+
+export const directionsResponseSchema = z.object({
+  code: z.string(),
+  message: z.string().optional(),
+  routes: z.array(directionsRouteSchema).default([]),
+});
+
+export const geocodingResponseSchema = z.object({
+  features: z.array(
+    z.object({
+      id: z.string(),
+      place_name: z.string(),
+      center: positionSchema,
+      place_type: z.array(z.string()).default([]),
+      relevance: z.number().default(1),
+      text: z.string().optional(),
+      // House number, on address features
+      address: z.string().optional(),
+      properties: z.object({ address: z.string().optional() }).optional(),
+      // Enclosing areas: postcode, neighborhood, place (city), region...
+      context: z
+        .array(z.object({ id: z.string(), text: z.string(), short_code: z.string().optional() }))
+        .default([]),
+    })
+  ),
+});
+
+// Optimization v1; waypoints[i].waypoint_index is the position of input i in the trip
+export const optimizationResponseSchema = z.object({
+  code: z.string(),
+  message: z.string().optional(),
+  trips: z.array(z.object({ duration: z.number(), distance: z.number() })).default([]),
+  waypoints: z.array(z.object({ waypoint_index: z.number() })).default([]),
+});
+
+export type DirectionsResponse = z.infer<typeof directionsResponseSchema>;
+export type DirectionsRoute = z.infer<typeof directionsRouteSchema>;
+export type GeocodingResponse = z.infer<typeof geocodingResponseSchema>;
+export type GeocodingFeature = GeocodingResponse['features'][number];
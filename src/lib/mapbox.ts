@@ -1,5 +1,16 @@
-import { Coordinates, Route, POI } from '@/types/navigation';
-
+import { Coordinates, Place, Route, RouteExclusion, TravelMode } from '@/types/navigation';
+import { supportedExclusions } from '@/lib/route-options';
+import { getRoutingProvider } from '@/lib/routing/provider';
+import { GeocodingSearchOptions, getGeocodingProvider } from '@/lib/geocoding/provider';
+import { detectCep, getCepProvider } from '@/lib/geocoding/cep';
+import { formatPlaceLabel, isSameStreet } from '@/lib/geocoding/address';
+import { coordinateKey, createResponseCache, directionsCacheKey, geocodeCacheKey } from '@/lib/response-cache';
+
+// Only for rendering the map: Mapbox GL fetches styles and tiles straight from
+// Mapbox, and the offline tile precaching requests the same tile URLs. Use a
+// public token restricted to our URLs. Every other Mapbox API (directions,
+// geocoding, POI search, optimization) goes through the /api routes, which
+// hold the server-only secret.
 const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || '';
 
 export const mapboxConfig = {
@@ -11,80 +22,106 @@ export const mapboxConfig = {
   },
 };
 
+// Searching geocodes both ends and rerouting asks for near-identical routes
+// again, so responses are memoized in the page on top of the server cache
+const directionsCache = createResponseCache<Route[]>({ ttl: 2 * 60 * 1000, maxEntries: 50 });
+const geocodeCache = createResponseCache<Place[]>({ ttl: 10 * 60 * 1000, maxEntries: 100 });
+const reverseGeocodeCache = createResponseCache<Place | null>({ ttl: 30 * 60 * 1000, maxEntries: 100 });
+
+export interface DirectionsOptions {
+  waypoints?: Coordinates[];
+  profile?: TravelMode;
+  exclude?: RouteExclusion[];
+}
+
+// Throws ApiError; a `no-route` error means the routing provider found
+// nothing between the points
 export async function getDirections(
   origin: Coordinates,
   destination: Coordinates,
-  alternatives: boolean = true
+  alternatives: boolean = true,
+  { waypoints = [], profile = 'driving', exclude = [] }: DirectionsOptions = {}
 ): Promise<Route[]> {
-  const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${origin.lng},${origin.lat};${destination.lng},${destination.lat}?alternatives=${alternatives}&geometries=geojson&steps=true&access_token=${MAPBOX_TOKEN}`;
-
-  try {
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.routes && data.routes.length > 0) {
-      return data.routes.map((route: any, index: number) => ({
-        id: `route-${index}`,
-        distance: route.distance,
-        duration: route.duration,
-        geometry: route.geometry,
-        steps: route.legs[0].steps.map((step: any) => ({
-          instruction: step.maneuver.instruction,
-          distance: step.distance,
-          duration: step.duration,
-          maneuver: {
-            type: step.maneuver.type,
-            modifier: step.maneuver.modifier,
-          },
-        })),
-        isAlternative: index > 0,
-      }));
-    }
-
-    return [];
-  } catch (error) {
-    console.error('Error fetching directions:', error);
-    return [];
-  }
+  const points = [origin, ...waypoints, destination];
+  const exclusions = exclude.filter(exclusion => supportedExclusions(profile).includes(exclusion));
+  // Alternatives are only offered for routes without intermediate stops
+  const withAlternatives = alternatives && waypoints.length === 0;
+  const key = directionsCacheKey(points, profile, { alternatives: withAlternatives, exclude: exclusions });
+
+  return directionsCache.get(key, async () =>
+    (await getRoutingProvider()).getRoutes({
+      coordinates: points,
+      profile,
+      alternatives: withAlternatives,
+      exclude: exclusions,
+    })
+  );
 }
 
 export async function geocodeAddress(address: string): Promise<Coordinates | null> {
-  const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(
-    address
-  )}.json?access_token=${MAPBOX_TOKEN}`;
-
-  try {
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.features && data.features.length > 0) {
-      const [lng, lat] = data.features[0].center;
-      return { lng, lat };
-    }
-
-    return null;
-  } catch (error) {
-    console.error('Error geocoding address:', error);
-    return null;
-  }
+  return (await geocodePlace(address))?.coordinates ?? null;
 }
 
-export async function reverseGeocode(coordinates: Coordinates): Promise<string> {
-  const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${coordinates.lng},${coordinates.lat}.json?access_token=${MAPBOX_TOKEN}`;
+function searchGeocoder(query: string, options: GeocodingSearchOptions): Promise<Place[]> {
+  const key = `${geocodeCacheKey(query, options)}|${options.autocomplete ?? false}`;
+  return geocodeCache.get(key, () => getGeocodingProvider().search(query, options));
+}
 
-  try {
-    const response = await fetch(url);
-    const data = await response.json();
+// Suggestions while typing, so geocoders that only allow explicit searches
+// (Nominatim) sit these out
+export async function searchPlaces(
+  query: string,
+  proximity?: Coordinates | null,
+  limit: number = 5
+): Promise<Place[]> {
+  return searchGeocoder(query, { proximity, limit, autocomplete: true });
+}
 
-    if (data.features && data.features.length > 0) {
-      return data.features[0].place_name;
-    }
+// Geocoders know streets much better than CEPs, so a CEP is first resolved to
+// its street, bairro and city; `number` then narrows it down when known. When
+// the geocoder only finds the bairro or the city, the label says just that
+// instead of naming a street the coordinates are not on.
+export async function geocodeCep(
+  cep: string,
+  number?: string,
+  proximity?: Coordinates | null
+): Promise<Place | null> {
+  const address = await getCepProvider().lookup(cep);
+  if (!address) return null;
+
+  const { cep: postalCode, ...area } = address;
+  const parts = { ...area, number: area.street ? number : undefined };
+  const [place] = await searchGeocoder(formatPlaceLabel(parts), { proximity, limit: 1 });
+  if (!place) return null;
+
+  const streetMatched = isSameStreet(place.street, area.street);
+  const matched = {
+    ...area,
+    street: streetMatched ? area.street : undefined,
+    number: streetMatched && parts.number && place.number === parts.number ? parts.number : undefined,
+    // A CEP names a street, unless it covers a whole small town
+    postalCode: streetMatched || !area.street ? postalCode : undefined,
+  };
+  return { ...place, ...matched, label: formatPlaceLabel(matched) };
+}
 
-    return 'Localização desconhecida';
-  } catch (error) {
-    console.error('Error reverse geocoding:', error);
-    return 'Localização desconhecida';
-  }
+export async function geocodePlace(address: string, proximity?: Coordinates | null): Promise<Place | null> {
+  const cep = detectCep(address);
+  if (cep) return geocodeCep(cep.cep, cep.number, proximity);
+
+  const [place] = await searchGeocoder(address, { proximity, limit: 1 });
+  return place ?? null;
+}
+
+// Null when no geocoding provider has an address for the point
+export async function reverseGeocodePlace(coordinates: Coordinates): Promise<Place | null> {
+  return reverseGeocodeCache.get(coordinateKey(coordinates.lng, coordinates.lat), () =>
+    getGeocodingProvider().reverse(coordinates)
+  );
+}
+
+export async function reverseGeocode(coordinates: Coordinates): Promise<string | null> {
+  return (await reverseGeocodePlace(coordinates))?.label ?? null;
 }
 
 export function formatDistance(meters: number): string {
@@ -104,48 +141,6 @@ export function formatDuration(seconds: number): string {
   return `${minutes} min`;
 }
 
-export function calculateDistance(
-  coord1: Coordinates,
-  coord2: Coordinates
-): number {
-  const R = 6371e3; // Earth radius in meters
-  const φ1 = (coord1.lat * Math.PI) / 180;
-  const φ2 = (coord2.lat * Math.PI) / 180;
-  const Δφ = ((coord2.lat - coord1.lat) * Math.PI) / 180;
-  const Δλ = ((coord2.lng - coord1.lng) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
-
-export const samplePOIs: POI[] = [
-  {
-    id: 'poi-1',
-    name: 'Posto Shell',
-    type: 'gas_station',
-    coordinates: { lng: -46.6333, lat: -23.5505 },
-    icon: '⛽',
-  },
-  {
-    id: 'poi-2',
-    name: 'Hospital das Clínicas',
-    type: 'hospital',
-    coordinates: { lng: -46.6722, lat: -23.5629 },
-    icon: '🏥',
-  },
-  {
-    id: 'poi-3',
-    name: 'Delegacia Central',
-    type: 'police',
-    coordinates: { lng: -46.6388, lat: -23.5475 },
-    icon: '🚓',
-  },
-];
-
 export function speakInstruction(text: string): void {
   if ('speechSynthesis' in window) {
     const utterance = new SpeechSynthesisUtterance(text);
@@ -0,0 +1,10 @@
+import { toast } from 'sonner';
+import { describeApiError, isApiError } from '@/lib/api-client';
+
+// Keyed by service and error kind so a burst of failing requests shows a single toast
+export function notifyApiError(error: unknown, context: string): void {
+  console.error(`Error ${context}:`, error);
+  toast.error(describeApiError(error), {
+    id: isApiError(error) ? `${error.service}-${error.kind}` : 'api-unknown',
+  });
+}
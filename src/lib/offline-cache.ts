@@ -0,0 +1,171 @@
+import type { Map as MapboxMap } from 'mapbox-gl';
+import { PlaceSuggestion, Route, RouteExclusion, TravelMode, Waypoint } from '@/types/navigation';
+import { mapboxConfig } from '@/lib/mapbox';
+
+const DB_NAME = 'tumaps-offline';
+const DB_VERSION = 1;
+const TRIP_STORE = 'trips';
+const ACTIVE_TRIP_KEY = 'active';
+
+export const OFFLINE_ZOOMS = [10, 11, 12, 13, 14, 15, 16];
+const OFFLINE_CORRIDOR = 300; // meters either side of the route
+const MAX_PRECACHE_TILES = 1500;
+const EARTH_CIRCUMFERENCE = 40075016.686; // meters
+
+export interface OfflineTrip {
+  route: Route;
+  origin: PlaceSuggestion;
+  destination: PlaceSuggestion;
+  waypoints: Waypoint[];
+  travelMode: TravelMode;
+  exclusions: RouteExclusion[];
+  savedAt: number;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(TRIP_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withTripStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(TRIP_STORE, mode).objectStore(TRIP_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// The full Route lives in IndexedDB rather than localStorage: geometries of
+// long trips easily exceed the few MB localStorage allows.
+export async function saveOfflineTrip(trip: OfflineTrip): Promise<void> {
+  await withTripStore('readwrite', store => store.put(trip, ACTIVE_TRIP_KEY));
+}
+
+export async function loadOfflineTrip(): Promise<OfflineTrip | null> {
+  return (await withTripStore<OfflineTrip | undefined>('readonly', store => store.get(ACTIVE_TRIP_KEY))) ?? null;
+}
+
+export async function clearOfflineTrip(): Promise<void> {
+  await withTripStore('readwrite', store => store.delete(ACTIVE_TRIP_KEY));
+}
+
+export async function registerServiceWorker(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+  }
+}
+
+// Tiles within OFFLINE_CORRIDOR of the route, lowest zoom first so the whole
+// route is at least coarsely covered when MAX_PRECACHE_TILES is reached.
+export function getCorridorTiles(
+  coordinates: [number, number][],
+  zooms: number[] = OFFLINE_ZOOMS,
+  maxTiles: number = MAX_PRECACHE_TILES
+): { z: number; x: number; y: number }[] {
+  const tiles = new Map<string, { z: number; x: number; y: number }>();
+
+  for (const z of zooms) {
+    const scale = 2 ** z;
+    const addTile = (x: number, y: number) => {
+      const tileX = ((Math.floor(x) % scale) + scale) % scale;
+      const tileY = Math.floor(y);
+      if (tileY < 0 || tileY >= scale) return;
+      tiles.set(`${z}/${tileX}/${tileY}`, { z, x: tileX, y: tileY });
+    };
+
+    for (let i = 0; i < coordinates.length; i++) {
+      const from = coordinates[Math.max(0, i - 1)];
+      const to = coordinates[i];
+      const latRadians = (to[1] * Math.PI) / 180;
+      // Corridor width as a fraction of a tile at this latitude
+      const buffer = OFFLINE_CORRIDOR / ((EARTH_CIRCUMFERENCE * Math.cos(latRadians)) / scale);
+
+      const [fromX, fromY] = toTileSpace(from, scale);
+      const [toX, toY] = toTileSpace(to, scale);
+      const steps = Math.max(1, Math.ceil(Math.hypot(toX - fromX, toY - fromY) * 4));
+
+      for (let step = 0; step <= steps; step++) {
+        const x = fromX + ((toX - fromX) * step) / steps;
+        const y = fromY + ((toY - fromY) * step) / steps;
+        for (const dx of [-buffer, 0, buffer]) {
+          for (const dy of [-buffer, 0, buffer]) {
+            addTile(x + dx, y + dy);
+          }
+        }
+      }
+    }
+
+    if (tiles.size >= maxTiles) break;
+  }
+
+  return [...tiles.values()].slice(0, maxTiles);
+}
+
+function toTileSpace([lng, lat]: [number, number], scale: number): [number, number] {
+  const latRadians = (lat * Math.PI) / 180;
+  const x = ((lng + 180) / 360) * scale;
+  const y = ((1 - Math.log(Math.tan(latRadians) + 1 / Math.cos(latRadians)) / Math.PI) / 2) * scale;
+  return [x, y];
+}
+
+// Mapbox GL keeps tileset URLs in canonical `mapbox://tiles/...` form and
+// only expands them when requesting a tile, so do the same expansion here
+function toRequestUrl(template: string): string {
+  if (!template.startsWith('mapbox://tiles/')) return template;
+
+  const url = template.replace('mapbox://tiles/', 'https://api.mapbox.com/v4/');
+  return `${url}${url.includes('?') ? '&' : '?'}access_token=${mapboxConfig.token}`;
+}
+
+// Tile URL templates of the sources in the current style, as resolved by Mapbox GL
+function getTileTemplates(map: MapboxMap): string[] {
+  const sources = map.getStyle()?.sources ?? {};
+
+  return Object.keys(sources).flatMap(id => {
+    const source = map.getSource(id) as { type?: string; tiles?: string[] } | undefined;
+    if (!source || (source.type !== 'vector' && source.type !== 'raster')) return [];
+
+    return (source.tiles ?? [])
+      .slice(0, 1)
+      .filter(template => /\{z\}.*\{x\}.*\{y\}/.test(template) && !/\{(?!z\}|x\}|y\})/.test(template))
+      .map(toRequestUrl);
+  });
+}
+
+// Asks the service worker to fetch the map tiles around the route in the
+// background. Resolves once the request is handed over, not when it finishes.
+export async function precacheRouteTiles(map: MapboxMap, route: Route): Promise<number> {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker?.controller) return 0;
+
+  const templates = getTileTemplates(map);
+  const tiles = getCorridorTiles(route.geometry.coordinates);
+  const urls = templates.flatMap(template =>
+    tiles.map(({ z, x, y }) =>
+      template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y))
+    )
+  );
+
+  navigator.serviceWorker.controller.postMessage({ type: 'precache-tiles', urls });
+  return urls.length;
+}
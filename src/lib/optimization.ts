@@ -0,0 +1,181 @@
+import { Coordinates, TravelMode, Waypoint } from '@/types/navigation';
+import { getDirections } from '@/lib/mapbox';
+import { ApiError, directionsCodeError, requestJson } from '@/lib/api-client';
+import { optimizationResponseSchema } from '@/lib/mapbox-client';
+import { calculateDistance } from '@/lib/geometry';
+import { baseProfile, travelModes } from '@/lib/travel-modes';
+
+const MAX_OPTIMIZATION_COORDINATES = 12; // Mapbox Optimization API limit
+const ROAD_DETOUR_FACTOR = 1.3; // straight-line distance to road distance
+
+export interface OptimizationResult {
+  waypoints: Waypoint[];
+  originalDuration: number;
+  optimizedDuration: number;
+  savedDuration: number;
+  source: 'mapbox' | 'local';
+}
+
+// Rough travel times from straight-line distance, for when no network is available
+export function buildEstimatedDurationMatrix(
+  points: Coordinates[],
+  profile: TravelMode = 'driving'
+): number[][] {
+  const speed = travelModes[profile].averageSpeed;
+  return points.map(from =>
+    points.map(to => (calculateDistance(from, to) * ROAD_DETOUR_FACTOR) / speed)
+  );
+}
+
+export function pathDuration(matrix: number[][], order: number[]): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += matrix[order[i - 1]][order[i]];
+  }
+  return total;
+}
+
+// Open path from node 0 to node n-1 visiting every node in between:
+// greedy nearest-neighbour construction followed by 2-opt improvement.
+export function solveOpenPath(matrix: number[][]): number[] {
+  const n = matrix.length;
+  if (n <= 3) return Array.from({ length: n }, (_, i) => i);
+
+  const last = n - 1;
+  const unvisited = new Set(Array.from({ length: n - 2 }, (_, i) => i + 1));
+  const order = [0];
+
+  while (unvisited.size > 0) {
+    const current = order[order.length - 1];
+    let nearest = -1;
+    for (const candidate of unvisited) {
+      if (nearest === -1 || matrix[current][candidate] < matrix[current][nearest]) {
+        nearest = candidate;
+      }
+    }
+    order.push(nearest);
+    unvisited.delete(nearest);
+  }
+  order.push(last);
+
+  // Reverse inner segments while that shortens the path; endpoints stay fixed.
+  // Durations can be asymmetric, so compare full path costs rather than edge deltas.
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < n - 2; i++) {
+      for (let j = i + 1; j < n - 1; j++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, j + 1).reverse(),
+          ...order.slice(j + 1),
+        ];
+        if (pathDuration(matrix, candidate) < pathDuration(matrix, order) - 1e-6) {
+          order.splice(0, n, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+export function optimizeLocally(
+  origin: Coordinates,
+  waypoints: Waypoint[],
+  destination: Coordinates,
+  profile: TravelMode = 'driving'
+): OptimizationResult {
+  const matrix = buildEstimatedDurationMatrix(
+    [origin, ...waypoints.map(waypoint => waypoint.coordinates), destination],
+    profile
+  );
+  const identity = Array.from({ length: matrix.length }, (_, i) => i);
+  const order = solveOpenPath(matrix);
+
+  const originalDuration = pathDuration(matrix, identity);
+  const optimizedDuration = pathDuration(matrix, order);
+
+  return {
+    waypoints: order.slice(1, -1).map(index => waypoints[index - 1]),
+    originalDuration,
+    optimizedDuration,
+    savedDuration: Math.max(0, originalDuration - optimizedDuration),
+    source: 'local',
+  };
+}
+
+export async function optimizeWithMapbox(
+  origin: Coordinates,
+  waypoints: Waypoint[],
+  destination: Coordinates,
+  profile: TravelMode = 'driving'
+): Promise<OptimizationResult> {
+  const points = [origin, ...waypoints.map(waypoint => waypoint.coordinates), destination];
+  if (points.length > MAX_OPTIMIZATION_COORDINATES) {
+    throw new Error(`Optimization supports at most ${MAX_OPTIMIZATION_COORDINATES - 2} stops`);
+  }
+
+  // Through our /api/optimize route, which holds the Mapbox secret
+  const params = new URLSearchParams({
+    coordinates: points.map(coord => `${coord.lng},${coord.lat}`).join(';'),
+    profile: baseProfile(profile),
+  });
+
+  const data = await requestJson(`/api/optimize?${params}`, optimizationResponseSchema, 'Mapbox');
+  if (data.code !== 'Ok') {
+    throw directionsCodeError(data.code, data.message, 'Mapbox');
+  }
+  if (data.trips.length === 0 || data.waypoints.length !== points.length) {
+    throw new ApiError('invalid-response', 'Optimization returned no trip for every stop', 'Mapbox');
+  }
+
+  const optimized = waypoints
+    .map((waypoint, index) => ({ waypoint, position: data.waypoints[index + 1].waypoint_index }))
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.waypoint);
+
+  // The Optimization API has no traffic profile, so both orders are timed with
+  // Directions and the same profile; otherwise an unchanged order could show savings
+  const routeDuration = async (order: Waypoint[]) => {
+    const [route] = await getDirections(origin, destination, false, {
+      waypoints: order.map(waypoint => waypoint.coordinates),
+      profile,
+    });
+    return route.duration;
+  };
+  const [originalDuration, optimizedDuration] = await Promise.all([
+    routeDuration(waypoints),
+    routeDuration(optimized),
+  ]);
+  const improves = optimizedDuration < originalDuration;
+
+  return {
+    waypoints: improves ? optimized : waypoints,
+    originalDuration,
+    optimizedDuration: improves ? optimizedDuration : originalDuration,
+    savedDuration: improves ? originalDuration - optimizedDuration : 0,
+    source: 'mapbox',
+  };
+}
+
+export async function optimizeStopOrder(
+  origin: Coordinates,
+  waypoints: Waypoint[],
+  destination: Coordinates,
+  profile: TravelMode = 'driving'
+): Promise<OptimizationResult> {
+  const isOnline = typeof navigator === 'undefined' || navigator.onLine;
+
+  if (isOnline) {
+    try {
+      return await optimizeWithMapbox(origin, waypoints, destination, profile);
+    } catch (error) {
+      // Still worth an answer; `source: 'local'` tells the caller it is an estimate
+      console.error('Error optimizing with Mapbox, falling back to local solver:', error);
+    }
+  }
+
+  return optimizeLocally(origin, waypoints, destination, profile);
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { Coordinates, POI } from '@/types/navigation';
+import { calculateDistance } from '@/lib/geometry';
+import { requestJson } from '@/lib/api-client';
+import { createResponseCache } from '@/lib/response-cache';
+import { PoiType, isPoiType, poiTypes } from '@/lib/pois';
+import poiFixture from '@/data/pois.fixture.json';
+
+// Rejects when the search fails, so an outage is never mistaken for an area
+// without POIs
+export interface PoiProvider {
+  searchNearby(center: Coordinates, radius: number, types: PoiType[]): Promise<POI[]>;
+}
+
+interface PoiFeatureCollection {
+  features: {
+    properties: { id: string; name: string; type: string };
+    geometry: { coordinates: number[] };
+  }[];
+}
+
+const MAX_RESULTS_PER_CATEGORY = 25;
+const MAX_CACHED_VIEWPORTS = 200;
+
+const categoryResponseSchema = z.object({
+  features: z
+    .array(
+      z.object({
+        properties: z.object({ mapbox_id: z.string(), name: z.string() }),
+        geometry: z.object({ coordinates: z.tuple([z.number(), z.number()]) }),
+      })
+    )
+    .default([]),
+});
+
+function toPoi(id: string, name: string, type: PoiType, coordinates: Coordinates): POI {
+  return { id, name, type, coordinates, icon: poiTypes[type].icon };
+}
+
+function boundingBox(center: Coordinates, radius: number): [number, number, number, number] {
+  const latDelta = radius / 111320;
+  const lngDelta = radius / (111320 * Math.cos((center.lat * Math.PI) / 180));
+  return [center.lng - lngDelta, center.lat - latDelta, center.lng + lngDelta, center.lat + latDelta];
+}
+
+// Mapbox Search Box category search through our /api/pois route, which holds
+// the Mapbox secret; one request per POI type
+export function createMapboxPoiProvider(endpoint: string = '/api/pois'): PoiProvider {
+  return {
+    async searchNearby(center, radius, types) {
+      const bbox = boundingBox(center, radius).join(',');
+
+      const results = await Promise.all(
+        types.map(async type => {
+          const params = new URLSearchParams({
+            type,
+            proximity: `${center.lng},${center.lat}`,
+            bbox,
+            limit: String(MAX_RESULTS_PER_CATEGORY),
+          });
+          const data = await requestJson(`${endpoint}?${params}`, categoryResponseSchema, 'Mapbox');
+
+          return data.features.map(feature => {
+            const [lng, lat] = feature.geometry.coordinates;
+            return toPoi(feature.properties.mapbox_id, feature.properties.name, type, { lng, lat });
+          });
+        })
+      );
+
+      return results.flat().filter(poi => calculateDistance(center, poi.coordinates) <= radius);
+    },
+  };
+}
+
+// Reads a bundled GeoJSON fixture so development and tests need no network
+export function createFixturePoiProvider(
+  collection: PoiFeatureCollection = poiFixture
+): PoiProvider {
+  const pois = collection.features
+    .filter(feature => isPoiType(feature.properties.type))
+    .map(feature =>
+      toPoi(feature.properties.id, feature.properties.name, feature.properties.type as PoiType, {
+        lng: feature.geometry.coordinates[0],
+        lat: feature.geometry.coordinates[1],
+      })
+    );
+
+  return {
+    async searchNearby(center, radius, types) {
+      return pois.filter(
+        poi => types.includes(poi.type) && calculateDistance(center, poi.coordinates) <= radius
+      );
+    },
+  };
+}
+
+// Viewport queries repeat constantly while panning; round the center to
+// ~100 m so nearby queries share an entry. Failed searches are not kept.
+export function withPoiCache(provider: PoiProvider, ttl: number = 5 * 60 * 1000): PoiProvider {
+  const cache = createResponseCache<POI[]>({ ttl, maxEntries: MAX_CACHED_VIEWPORTS });
+
+  return {
+    async searchNearby(center, radius, types) {
+      const key = [
+        center.lng.toFixed(3),
+        center.lat.toFixed(3),
+        Math.round(radius / 100) * 100,
+        [...types].sort().join('|'),
+      ].join(':');
+
+      return cache.get(key, () => provider.searchNearby(center, radius, types));
+    },
+  };
+}
+
+let defaultProvider: PoiProvider | null = null;
+
+// Shared so the map layer and route search reuse one cache
+export function getPoiProvider(): PoiProvider {
+  if (!defaultProvider) {
+    const useFixture = process.env.NEXT_PUBLIC_POI_PROVIDER === 'fixture';
+    defaultProvider = withPoiCache(useFixture ? createFixturePoiProvider() : createMapboxPoiProvider());
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,59 @@
+import { POI } from '@/types/navigation';
+import { isOwnKey } from '@/lib/utils';
+
+export type PoiType = POI['type'];
+
+export const poiTypes: Record<PoiType, { label: string; icon: string; color: string }> = {
+  gas_station: { label: 'Postos', icon: '⛽', color: '#ca8a04' },
+  hospital: { label: 'Hospitais', icon: '🏥', color: '#dc2626' },
+  police: { label: 'Polícia', icon: '🚓', color: '#2563eb' },
+  parking: { label: 'Estacionamentos', icon: '🅿️', color: '#4f46e5' },
+  restaurant: { label: 'Restaurantes', icon: '🍽️', color: '#16a34a' },
+};
+
+export function isPoiType(value: string): value is PoiType {
+  return isOwnKey(poiTypes, value);
+}
+
+export const POI_IMAGE_PREFIX = 'poi-';
+
+export function poisToGeoJSON(pois: POI[], enabledTypes: PoiType[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: pois
+      .filter(poi => enabledTypes.includes(poi.type))
+      .map(poi => ({
+        type: 'Feature' as const,
+        properties: { id: poi.id, name: poi.name, type: poi.type },
+        geometry: {
+          type: 'Point' as const,
+          coordinates: [poi.coordinates.lng, poi.coordinates.lat],
+        },
+      })),
+  };
+}
+
+// Mapbox glyph fonts can't render emoji, so each category icon is drawn
+// onto a canvas and registered with the map as an image.
+export function createPoiImage(type: PoiType, size: number = 64): ImageData | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.beginPath();
+  context.arc(size / 2, size / 2, size / 2 - 2, 0, Math.PI * 2);
+  context.fillStyle = '#ffffff';
+  context.fill();
+  context.lineWidth = 4;
+  context.strokeStyle = poiTypes[type].color;
+  context.stroke();
+
+  context.font = `${Math.round(size * 0.5)}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(poiTypes[type].icon, size / 2, size / 2 + 2);
+
+  return context.getImageData(0, 0, size, size);
+}
@@ -0,0 +1,130 @@
+import { Coordinates, RouteExclusion, TravelMode } from '@/types/navigation';
+
+// Small in-memory cache for API responses, shared by the browser client and
+// the server route handlers, so it must not touch window or Next APIs.
+
+export const COORDINATE_PRECISION = 4; // decimals, about 11 m
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // Requests that joined an identical one already in flight
+  deduplicated: number;
+  evictions: number;
+  size: number;
+}
+
+export interface ResponseCache<T> {
+  // Cached value for `key`, or the result of `load`; concurrent calls for the
+  // same key share one `load`. Rejections are passed on and never cached.
+  get(key: string, load: () => Promise<T>): Promise<T>;
+  delete(key: string): void;
+  clear(): void;
+  stats(): CacheStats;
+}
+
+interface ResponseCacheOptions<T> {
+  // Name the counters are reported under on /api/cache-stats. Server caches
+  // only: nothing collects the counters of caches living in the browser.
+  name?: string;
+  ttl: number; // ms
+  maxEntries: number;
+  // Responses that load fine but should not be kept, e.g. upstream errors
+  isCacheable?: (value: T) => boolean;
+}
+
+// Kept on globalThis so every route handler bundle reports into the same place
+const registry: Map<string, ResponseCache<unknown>> = ((
+  globalThis as typeof globalThis & { __tumapsResponseCaches?: Map<string, ResponseCache<unknown>> }
+).__tumapsResponseCaches ??= new Map());
+
+export function createResponseCache<T>({
+  name,
+  ttl,
+  maxEntries,
+  isCacheable = () => true,
+}: ResponseCacheOptions<T>): ResponseCache<T> {
+  // Map iteration follows insertion order; re-inserting on every hit keeps the
+  // least recently used entry first, ready for eviction
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  const inFlight = new Map<string, Promise<T>>();
+  const counters = { hits: 0, misses: 0, deduplicated: 0, evictions: 0 };
+
+  const store = (key: string, value: T) => {
+    entries.delete(key);
+    while (entries.size >= maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+      counters.evictions++;
+    }
+    entries.set(key, { value, expiresAt: Date.now() + ttl });
+  };
+
+  const cache: ResponseCache<T> = {
+    async get(key, load) {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        counters.hits++;
+        entries.delete(key);
+        entries.set(key, entry);
+        return entry.value;
+      }
+      if (entry) entries.delete(key);
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        counters.deduplicated++;
+        return pending;
+      }
+
+      counters.misses++;
+      const request = load()
+        .then(value => {
+          if (isCacheable(value)) store(key, value);
+          return value;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, request);
+      return request;
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+    stats() {
+      return { ...counters, size: entries.size };
+    },
+  };
+
+  if (name) registry.set(name, cache as ResponseCache<unknown>);
+  return cache;
+}
+
+// Counters of every named cache created in this process, by name
+export function getCacheStats(): Record<string, CacheStats> {
+  return Object.fromEntries([...registry].map(([name, cache]) => [name, cache.stats()]));
+}
+
+// "lng,lat" rounded so that points a few meters apart share a cache entry
+export function coordinateKey(lng: number, lat: number, precision: number = COORDINATE_PRECISION): string {
+  return `${lng.toFixed(precision)},${lat.toFixed(precision)}`;
+}
+
+export function directionsCacheKey(
+  coordinates: Coordinates[],
+  profile: TravelMode,
+  { alternatives, exclude }: { alternatives: boolean; exclude: RouteExclusion[] }
+): string {
+  const points = coordinates.map(coord => coordinateKey(coord.lng, coord.lat)).join(';');
+  return `${profile}|${points}|${alternatives}|${[...exclude].sort().join(',')}`;
+}
+
+// The proximity bias only nudges the ranking, so a coarse (~1 km) grid will do
+export function geocodeCacheKey(
+  query: string,
+  { proximity, limit }: { proximity?: Coordinates | null; limit: number }
+): string {
+  const bias = proximity ? coordinateKey(proximity.lng, proximity.lat, 2) : '';
+  return `${query.trim().toLowerCase()}|${bias}|${limit}`;
+}
@@ -0,0 +1,403 @@
+import { z } from 'zod';
+import { Route, RouteStep, TravelMode, Trip } from '@/types/navigation';
+import { calculateDistance } from '@/lib/geometry';
+import { getPolylineLength } from '@/lib/route-progress';
+import { travelModes } from '@/lib/travel-modes';
+
+const TURN_SAMPLE_SPACING = 25; // meters between points compared for heading changes
+const TURN_THRESHOLD = 35; // degrees of heading change announced as a maneuver
+
+export class RouteFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RouteFileError';
+  }
+}
+
+const positionSchema = z
+  .array(z.number())
+  .min(2)
+  .transform(([lng, lat]): [number, number] => [lng, lat]);
+
+const lineGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('LineString'), coordinates: z.array(positionSchema) }),
+  z.object({
+    type: z.literal('MultiLineString'),
+    coordinates: z.array(z.array(positionSchema)).transform(lines => lines.flat()),
+  }),
+]);
+
+// Only what the import reads; anything else in a feature is ignored, and a
+// property of the wrong type is dropped rather than rejecting the file
+const geoJsonFeatureSchema = z.object({
+  geometry: z.unknown(),
+  properties: z
+    .object({
+      name: z.string().optional().catch(undefined),
+      coordTimes: z.array(z.union([z.number(), z.string()])).optional().catch(undefined),
+    })
+    .nullish()
+    .catch(null),
+});
+
+const geoJsonSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('FeatureCollection'), features: z.array(geoJsonFeatureSchema) }),
+  geoJsonFeatureSchema.extend({ type: z.literal('Feature') }),
+  // A bare geometry
+  z.object({
+    type: z.enum([
+      'Point',
+      'MultiPoint',
+      'LineString',
+      'MultiLineString',
+      'Polygon',
+      'MultiPolygon',
+      'GeometryCollection',
+    ]),
+  }),
+]);
+
+export interface ImportedTrack {
+  name: string;
+  coordinates: [number, number][];
+  times: number[] | null; // epoch ms per coordinate, when the file has them
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function gpxDocument(body: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="TUMAPS" xmlns="http://www.topografix.com/GPX/1/1">',
+    body,
+    '</gpx>',
+  ].join('\n');
+}
+
+// Index of the geometry vertex closest to each maneuver, searching forward so
+// a route that passes the same spot twice keeps its steps in order.
+function stepVertexIndexes(route: Route): Map<number, RouteStep> {
+  const byIndex = new Map<number, RouteStep>();
+  const coordinates = route.geometry.coordinates;
+  let searchFrom = 0;
+
+  for (const step of route.steps) {
+    const location = step.maneuver.location;
+    if (!location) continue;
+
+    let nearest = searchFrom;
+    let nearestDistance = Infinity;
+    for (let i = searchFrom; i < coordinates.length; i++) {
+      const distance = calculateDistance(
+        { lng: coordinates[i][0], lat: coordinates[i][1] },
+        { lng: location[0], lat: location[1] }
+      );
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!byIndex.has(nearest)) byIndex.set(nearest, step);
+    searchFrom = nearest;
+  }
+  return byIndex;
+}
+
+// Every geometry vertex becomes a route point; the ones where a step starts
+// carry its instruction so other apps can show the turn list.
+export function routeToGpx(route: Route, name: string): string {
+  const steps = stepVertexIndexes(route);
+  const points = route.geometry.coordinates.map(([lng, lat], index) => {
+    const step = steps.get(index);
+    if (!step) return `    <rtept lat="${lat}" lon="${lng}"/>`;
+
+    return [
+      `    <rtept lat="${lat}" lon="${lng}">`,
+      `      <name>${escapeXml(step.instruction)}</name>`,
+      `      <type>${escapeXml([step.maneuver.type, step.maneuver.modifier].filter(Boolean).join(' '))}</type>`,
+      '    </rtept>',
+    ].join('\n');
+  });
+
+  return gpxDocument(['  <rte>', `    <name>${escapeXml(name)}</name>`, ...points, '  </rte>'].join('\n'));
+}
+
+export function routeToGeoJSON(route: Route, name: string): string {
+  const stepFeatures = route.steps
+    .filter(step => step.maneuver.location)
+    .map(step => ({
+      type: 'Feature',
+      properties: {
+        instruction: step.instruction,
+        distance: step.distance,
+        duration: step.duration,
+        maneuverType: step.maneuver.type,
+        maneuverModifier: step.maneuver.modifier ?? null,
+      },
+      geometry: { type: 'Point', coordinates: step.maneuver.location },
+    }));
+
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {
+            name,
+            distance: route.distance,
+            duration: route.duration,
+            profile: route.profile ?? null,
+          },
+          geometry: { type: 'LineString', coordinates: route.geometry.coordinates },
+        },
+        ...stepFeatures,
+      ],
+    },
+    null,
+    2
+  );
+}
+
+export function tripToGpx(trip: Trip): string {
+  const name = `${trip.origin.label} → ${trip.destination.label}`;
+  const points = trip.track.map(([lng, lat], index) => {
+    const time = trip.trackTimes?.[index];
+    return time
+      ? `      <trkpt lat="${lat}" lon="${lng}"><time>${new Date(time).toISOString()}</time></trkpt>`
+      : `      <trkpt lat="${lat}" lon="${lng}"/>`;
+  });
+
+  return gpxDocument(
+    [
+      '  <metadata>',
+      `    <time>${new Date(trip.startedAt).toISOString()}</time>`,
+      '  </metadata>',
+      '  <trk>',
+      `    <name>${escapeXml(name)}</name>`,
+      '    <trkseg>',
+      ...points,
+      '    </trkseg>',
+      '  </trk>',
+    ].join('\n')
+  );
+}
+
+function parseGpx(text: string, fallbackName: string): ImportedTrack {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new RouteFileError('O arquivo GPX está corrompido.');
+  }
+
+  // Prefer a planned route, then a recorded track, then loose waypoints
+  const container =
+    doc.getElementsByTagName('rte')[0] ?? doc.getElementsByTagName('trk')[0] ?? doc.documentElement;
+  const pointTag = container.tagName === 'rte' ? 'rtept' : container.tagName === 'trk' ? 'trkpt' : 'wpt';
+  const points = Array.from(container.getElementsByTagName(pointTag));
+
+  // A missing or empty attribute must not read as 0 (Number(null) and Number('')
+  // both are), which would put the point in the Gulf of Guinea
+  const readDegrees = (point: Element, name: string) => {
+    const value = point.getAttribute(name)?.trim();
+    return value ? Number(value) : NaN;
+  };
+  const coordinates = points.map(
+    point => [readDegrees(point, 'lon'), readDegrees(point, 'lat')] as [number, number]
+  );
+  const times = points.map(point => Date.parse(point.getElementsByTagName('time')[0]?.textContent ?? ''));
+  const name = Array.from(container.children).find(child => child.tagName === 'name')?.textContent;
+
+  return {
+    name: name?.trim() || fallbackName,
+    coordinates,
+    times: times.every(time => !Number.isNaN(time)) ? times : null,
+  };
+}
+
+function parseGeoJSON(text: string, fallbackName: string): ImportedTrack {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new RouteFileError('O arquivo GeoJSON está corrompido.');
+  }
+
+  const parsed = geoJsonSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new RouteFileError('O arquivo não é um GeoJSON válido.');
+  }
+
+  const data = parsed.data;
+  const features =
+    data.type === 'FeatureCollection'
+      ? data.features
+      : data.type === 'Feature'
+        ? [data]
+        : [{ geometry: json, properties: null }];
+
+  for (const feature of features) {
+    const geometry = lineGeometrySchema.safeParse(feature.geometry);
+    if (!geometry.success) continue;
+
+    const { coordinates } = geometry.data;
+    const times = feature.properties?.coordTimes;
+    return {
+      name: feature.properties?.name || fallbackName,
+      coordinates,
+      times:
+        times && times.length === coordinates.length
+          ? times.map(time => (typeof time === 'number' ? time : Date.parse(time)))
+          : null,
+    };
+  }
+
+  throw new RouteFileError('Nenhuma linha encontrada no arquivo GeoJSON.');
+}
+
+export function parseRouteFile(text: string, fileName: string): ImportedTrack {
+  const fallbackName = fileName.replace(/\.[^.]+$/, '');
+  const track = text.trimStart().startsWith('<')
+    ? parseGpx(text, fallbackName)
+    : parseGeoJSON(text, fallbackName);
+
+  const invalid = track.coordinates.findIndex(
+    ([lng, lat]) => !(Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90)
+  );
+  if (invalid >= 0) {
+    throw new RouteFileError(`O ponto ${invalid + 1} do arquivo tem coordenadas inválidas.`);
+  }
+  if (track.coordinates.length < 2) {
+    throw new RouteFileError('O arquivo precisa ter pelo menos dois pontos.');
+  }
+
+  return track;
+}
+
+function bearing(from: [number, number], to: [number, number]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const lat1 = toRadians(from[1]);
+  const lat2 = toRadians(to[1]);
+  const deltaLng = toRadians(to[0] - from[0]);
+
+  const y = Math.sin(deltaLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLng);
+  return (Math.atan2(y, x) * 180) / Math.PI;
+}
+
+function describeTurn(change: number): { modifier: string; instruction: string } {
+  const side = change > 0 ? 'right' : 'left';
+  const sideLabel = change > 0 ? 'direita' : 'esquerda';
+  const angle = Math.abs(change);
+
+  if (angle >= 160) return { modifier: 'uturn', instruction: 'Faça o retorno' };
+  if (angle >= 120) return { modifier: `sharp ${side}`, instruction: `Vire acentuadamente à ${sideLabel}` };
+  if (angle >= 60) return { modifier: side, instruction: `Vire à ${sideLabel}` };
+  return { modifier: `slight ${side}`, instruction: `Mantenha-se à ${sideLabel}` };
+}
+
+// Vertices where the heading changes enough to announce. GPS tracks are
+// noisy, so headings are measured between points at least TURN_SAMPLE_SPACING apart.
+function findTurns(coordinates: [number, number][]): { index: number; change: number }[] {
+  const samples = [0];
+  let sinceLastSample = 0;
+  for (let i = 1; i < coordinates.length - 1; i++) {
+    sinceLastSample += getPolylineLength([coordinates[i - 1], coordinates[i]]);
+    if (sinceLastSample >= TURN_SAMPLE_SPACING) {
+      samples.push(i);
+      sinceLastSample = 0;
+    }
+  }
+  samples.push(coordinates.length - 1);
+
+  const turns: { index: number; change: number }[] = [];
+  for (let i = 1; i < samples.length - 1; i++) {
+    const incoming = bearing(coordinates[samples[i - 1]], coordinates[samples[i]]);
+    const outgoing = bearing(coordinates[samples[i]], coordinates[samples[i + 1]]);
+    const change = ((outgoing - incoming + 540) % 360) - 180;
+
+    if (Math.abs(change) >= TURN_THRESHOLD) {
+      turns.push({ index: samples[i], change });
+    }
+  }
+  return turns;
+}
+
+// Turns a bare line into a Route the navigation card can follow: steps are
+// synthesized from heading changes, and durations come from the file's
+// timestamps when present, otherwise from the mode's average speed.
+export function trackToRoute(track: ImportedTrack, profile: TravelMode = 'driving'): Route {
+  const { coordinates, times } = track;
+  const distance = getPolylineLength(coordinates);
+  const duration =
+    times && times[times.length - 1] > times[0]
+      ? (times[times.length - 1] - times[0]) / 1000
+      : distance / travelModes[profile].averageSpeed;
+  const secondsPerMeter = distance > 0 ? duration / distance : 0;
+
+  const maneuvers = [
+    {
+      index: 0,
+      type: 'depart',
+      modifier: undefined as string | undefined,
+      instruction: `${travelModes[profile].verb} pela rota importada`,
+    },
+    ...findTurns(coordinates).map(({ index, change }) => ({ index, type: 'turn', ...describeTurn(change) })),
+    {
+      index: coordinates.length - 1,
+      type: 'arrive',
+      modifier: undefined,
+      instruction: 'Você chegou ao destino',
+    },
+  ];
+
+  const steps: RouteStep[] = maneuvers.map((maneuver, i) => {
+    const next = maneuvers[i + 1];
+    const stepDistance = next ? getPolylineLength(coordinates.slice(maneuver.index, next.index + 1)) : 0;
+
+    return {
+      instruction: maneuver.instruction,
+      distance: stepDistance,
+      duration: stepDistance * secondsPerMeter,
+      maneuver: {
+        type: maneuver.type,
+        modifier: maneuver.modifier,
+        location: coordinates[maneuver.index],
+      },
+      legIndex: 0,
+    };
+  });
+
+  return {
+    id: `imported-${Date.now()}`,
+    distance,
+    duration,
+    geometry: { coordinates },
+    steps,
+    legs: [{ distance, duration, steps }],
+    profile,
+    isImported: true,
+  };
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Safe for every OS: accents kept, path separators and reserved characters dropped
+export function toFileName(name: string, extension: string): string {
+  const base = name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').slice(0, 60) || 'rota';
+  return `${base}.${extension}`;
+}
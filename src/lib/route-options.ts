@@ -0,0 +1,58 @@
+import { RouteExclusion, TravelMode } from '@/types/navigation';
+import { readLocal, writeLocal } from '@/lib/storage';
+import { isOwnKey } from '@/lib/utils';
+import { RoutingProviderName, getRoutingProviderName } from '@/lib/routing/provider';
+
+export const routeExclusions: Record<RouteExclusion, { label: string }> = {
+  toll: { label: 'Pedágios' },
+  cash_only_tolls: { label: 'Pedágios só em dinheiro' },
+  motorway: { label: 'Rodovias' },
+  ferry: { label: 'Balsas' },
+  unpaved: { label: 'Estradas de terra' },
+};
+
+export function isRouteExclusion(value: string): value is RouteExclusion {
+  return isOwnKey(routeExclusions, value);
+}
+
+// Exclusions each routing backend applies, per profile. Anything else is
+// dropped before the request, and the options panel disables it.
+const SUPPORTED_EXCLUSIONS: Record<RoutingProviderName, Record<TravelMode, RouteExclusion[]>> = {
+  mapbox: {
+    driving: ['toll', 'cash_only_tolls', 'motorway', 'ferry', 'unpaved'],
+    'driving-traffic': ['toll', 'cash_only_tolls', 'motorway', 'ferry', 'unpaved'],
+    walking: [],
+    cycling: ['ferry'],
+  },
+  // The classes OSRM's stock car profile makes excludable
+  osrm: {
+    driving: ['toll', 'motorway', 'ferry'],
+    'driving-traffic': ['toll', 'motorway', 'ferry'],
+    walking: [],
+    cycling: [],
+  },
+  valhalla: {
+    driving: ['toll', 'cash_only_tolls', 'motorway', 'ferry', 'unpaved'],
+    'driving-traffic': ['toll', 'cash_only_tolls', 'motorway', 'ferry', 'unpaved'],
+    walking: ['ferry'],
+    cycling: ['ferry'],
+  },
+  // GraphHopper's GET API has no avoid options, and the fixture routes are fixed
+  graphhopper: { driving: [], 'driving-traffic': [], walking: [], cycling: [] },
+  fixture: { driving: [], 'driving-traffic': [], walking: [], cycling: [] },
+};
+
+export function supportedExclusions(
+  profile: TravelMode,
+  provider: RoutingProviderName = getRoutingProviderName()
+): RouteExclusion[] {
+  return SUPPORTED_EXCLUSIONS[provider][profile];
+}
+
+export function loadRouteExclusions(): RouteExclusion[] {
+  return readLocal<string[]>('route-exclusions', []).filter(isRouteExclusion);
+}
+
+export function saveRouteExclusions(exclusions: RouteExclusion[]): void {
+  writeLocal('route-exclusions', exclusions);
+}
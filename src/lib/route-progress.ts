@@ -0,0 +1,149 @@
+import { Coordinates, Route, RouteProgress } from '@/types/navigation';
+import { calculateDistance } from '@/lib/geometry';
+
+const METERS_PER_DEGREE = 111320;
+
+export interface SnappedPosition {
+  coordinates: Coordinates;
+  segmentIndex: number;
+  distanceAlong: number; // meters from the start of the polyline
+  distanceFromRoute: number; // meters between the fix and the snapped point
+}
+
+// Projects a point onto the segment [a, b] using a local equirectangular
+// approximation, which is accurate enough at street scale.
+function projectOntoSegment(
+  point: Coordinates,
+  a: Coordinates,
+  b: Coordinates
+): { coordinates: Coordinates; t: number } {
+  const cosLat = Math.cos((point.lat * Math.PI) / 180);
+  const ax = (a.lng - point.lng) * cosLat * METERS_PER_DEGREE;
+  const ay = (a.lat - point.lat) * METERS_PER_DEGREE;
+  const bx = (b.lng - point.lng) * cosLat * METERS_PER_DEGREE;
+  const by = (b.lat - point.lat) * METERS_PER_DEGREE;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+
+  let t = lengthSquared > 0 ? -(ax * dx + ay * dy) / lengthSquared : 0;
+  t = Math.max(0, Math.min(1, t));
+
+  return {
+    coordinates: {
+      lng: a.lng + (b.lng - a.lng) * t,
+      lat: a.lat + (b.lat - a.lat) * t,
+    },
+    t,
+  };
+}
+
+export function getPolylineLength(coordinates: [number, number][]): number {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    length += calculateDistance(
+      { lng: coordinates[i - 1][0], lat: coordinates[i - 1][1] },
+      { lng: coordinates[i][0], lat: coordinates[i][1] }
+    );
+  }
+  return length;
+}
+
+export function snapToRoute(
+  point: Coordinates,
+  coordinates: [number, number][]
+): SnappedPosition | null {
+  if (coordinates.length === 0) return null;
+
+  if (coordinates.length === 1) {
+    const only = { lng: coordinates[0][0], lat: coordinates[0][1] };
+    return {
+      coordinates: only,
+      segmentIndex: 0,
+      distanceAlong: 0,
+      distanceFromRoute: calculateDistance(point, only),
+    };
+  }
+
+  let best: SnappedPosition | null = null;
+  let traveled = 0;
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const a = { lng: coordinates[i][0], lat: coordinates[i][1] };
+    const b = { lng: coordinates[i + 1][0], lat: coordinates[i + 1][1] };
+    const segmentLength = calculateDistance(a, b);
+    const projection = projectOntoSegment(point, a, b);
+    const distanceFromRoute = calculateDistance(point, projection.coordinates);
+
+    if (!best || distanceFromRoute < best.distanceFromRoute) {
+      best = {
+        coordinates: projection.coordinates,
+        segmentIndex: i,
+        distanceAlong: traveled + segmentLength * projection.t,
+        distanceFromRoute,
+      };
+    }
+
+    traveled += segmentLength;
+  }
+
+  return best;
+}
+
+export function computeRouteProgress(
+  route: Route,
+  location: Coordinates
+): RouteProgress | null {
+  const coordinates = route.geometry.coordinates;
+  const snapped = snapToRoute(location, coordinates);
+  if (!snapped || route.steps.length === 0) return null;
+
+  // Step distances come from the routing engine and rarely add up to exactly
+  // the polyline length, so scale them onto the geometry before comparing.
+  const geometryLength = getPolylineLength(coordinates);
+  const stepsLength = route.steps.reduce((sum, step) => sum + step.distance, 0);
+  const scale = geometryLength > 0 && stepsLength > 0 ? stepsLength / geometryLength : 1;
+  const traveled = snapped.distanceAlong * scale;
+
+  let stepIndex = 0;
+  let stepStart = 0;
+  while (
+    stepIndex < route.steps.length - 1 &&
+    traveled >= stepStart + route.steps[stepIndex].distance
+  ) {
+    stepStart += route.steps[stepIndex].distance;
+    stepIndex++;
+  }
+
+  const currentStep = route.steps[stepIndex];
+  const distanceIntoStep = Math.min(traveled - stepStart, currentStep.distance);
+  const stepFraction = currentStep.distance > 0 ? distanceIntoStep / currentStep.distance : 1;
+
+  const legIndex = currentStep.legIndex ?? 0;
+  const stepRemainingDuration = currentStep.duration * (1 - stepFraction);
+  const stepRemainingDistance = currentStep.distance - distanceIntoStep;
+  const laterSteps = route.steps.slice(stepIndex + 1);
+  const laterLegSteps = laterSteps.filter(step => (step.legIndex ?? 0) === legIndex);
+
+  const remainingDuration =
+    stepRemainingDuration + laterSteps.reduce((sum, step) => sum + step.duration, 0);
+
+  return {
+    stepIndex,
+    legIndex,
+    snappedLocation: snapped.coordinates,
+    distanceFromRoute: snapped.distanceFromRoute,
+    distanceToNextManeuver: Math.max(0, stepRemainingDistance),
+    remainingDistance: Math.max(0, route.distance * (1 - traveled / (stepsLength || 1))),
+    remainingDuration: Math.max(0, remainingDuration),
+    legRemainingDistance: Math.max(
+      0,
+      stepRemainingDistance + laterLegSteps.reduce((sum, step) => sum + step.distance, 0)
+    ),
+    legRemainingDuration: Math.max(
+      0,
+      stepRemainingDuration + laterLegSteps.reduce((sum, step) => sum + step.duration, 0)
+    ),
+  };
+}
@@ -0,0 +1,136 @@
+import { Coordinates, POI, Route } from '@/types/navigation';
+import { DirectionsOptions, getDirections } from '@/lib/mapbox';
+import { isApiError } from '@/lib/api-client';
+import { PoiProvider } from '@/lib/poi-provider';
+import { PoiType } from '@/lib/pois';
+import { getPolylineLength, snapToRoute } from '@/lib/route-progress';
+
+export const CORRIDOR_WIDTH = 1000; // meters either side of the route
+const LOOKAHEAD_DISTANCE = 30000; // meters of remaining route to search
+const SAMPLE_SPACING = 2 * CORRIDOR_WIDTH;
+const MAX_DETOUR_CANDIDATES = 5;
+
+export interface RouteSearchResult {
+  poi: POI;
+  distanceAhead: number; // meters along the route from the current position
+  distanceFromRoute: number;
+  detourDuration: number; // seconds added to the remaining trip
+  detourRoute: Route;
+}
+
+// Remaining polyline from the current position, trimmed to the lookahead window
+export function getRemainingPolyline(
+  coordinates: [number, number][],
+  location: Coordinates,
+  maxLength: number = LOOKAHEAD_DISTANCE
+): [number, number][] {
+  const snapped = snapToRoute(location, coordinates);
+  if (!snapped) return [];
+
+  const remaining: [number, number][] = [
+    [snapped.coordinates.lng, snapped.coordinates.lat],
+    ...coordinates.slice(snapped.segmentIndex + 1),
+  ];
+
+  let length = 0;
+  for (let i = 1; i < remaining.length; i++) {
+    length += getPolylineLength([remaining[i - 1], remaining[i]]);
+    if (length > maxLength) return remaining.slice(0, i + 1);
+  }
+  return remaining;
+}
+
+// Evenly spaced points along a polyline, used as centers for corridor queries
+function samplePolyline(coordinates: [number, number][], spacing: number): Coordinates[] {
+  if (coordinates.length === 0) return [];
+
+  const samples: Coordinates[] = [{ lng: coordinates[0][0], lat: coordinates[0][1] }];
+  let sinceLastSample = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    sinceLastSample += getPolylineLength([coordinates[i - 1], coordinates[i]]);
+    if (sinceLastSample >= spacing || i === coordinates.length - 1) {
+      samples.push({ lng: coordinates[i][0], lat: coordinates[i][1] });
+      sinceLastSample = 0;
+    }
+  }
+  return samples;
+}
+
+export async function findPoisAlongRoute(
+  provider: PoiProvider,
+  remaining: [number, number][],
+  types: PoiType[],
+  corridorWidth: number = CORRIDOR_WIDTH
+): Promise<{ poi: POI; distanceAhead: number; distanceFromRoute: number }[]> {
+  const samples = samplePolyline(remaining, SAMPLE_SPACING);
+  const batches = await Promise.all(
+    samples.map(center => provider.searchNearby(center, SAMPLE_SPACING, types))
+  );
+
+  const seen = new Set<string>();
+  const candidates: { poi: POI; distanceAhead: number; distanceFromRoute: number }[] = [];
+
+  for (const poi of batches.flat()) {
+    if (seen.has(poi.id)) continue;
+    seen.add(poi.id);
+
+    const snapped = snapToRoute(poi.coordinates, remaining);
+    // Anything behind the driver snaps onto the very start of the remaining line
+    const isBehind = snapped?.distanceAlong === 0 && snapped.distanceFromRoute > 0;
+    if (snapped && !isBehind && snapped.distanceFromRoute <= corridorWidth) {
+      candidates.push({
+        poi,
+        distanceAhead: snapped.distanceAlong,
+        distanceFromRoute: snapped.distanceFromRoute,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+// Finds POIs of the given types ahead on the route and ranks them by how much
+// time a stop there adds. Only the closest candidates are priced with a real
+// Directions request to keep API usage bounded.
+export async function searchAlongRoute(
+  provider: PoiProvider,
+  route: Route,
+  location: Coordinates,
+  destination: Coordinates,
+  remainingDuration: number,
+  types: PoiType[],
+  directionsOptions: DirectionsOptions = {}
+): Promise<RouteSearchResult[]> {
+  const remaining = getRemainingPolyline(route.geometry.coordinates, location);
+  const candidates = await findPoisAlongRoute(provider, remaining, types);
+
+  const closest = candidates
+    .sort((a, b) => a.distanceFromRoute - b.distanceFromRoute)
+    .slice(0, MAX_DETOUR_CANDIDATES);
+
+  // A candidate Directions can't route to is dropped; any other failure (an
+  // outage, rate limiting) fails the search so it isn't shown as "nothing found"
+  const priced = await Promise.all(
+    closest.map(async candidate => {
+      const [detourRoute] = await getDirections(location, destination, false, {
+        ...directionsOptions,
+        waypoints: [candidate.poi.coordinates, ...(directionsOptions.waypoints ?? [])],
+      }).catch(error => {
+        if (!isApiError(error, 'no-route')) throw error;
+        return [];
+      });
+      if (!detourRoute) return null;
+
+      return {
+        ...candidate,
+        detourDuration: Math.max(0, detourRoute.duration - remainingDuration),
+        detourRoute,
+      };
+    })
+  );
+
+  return priced
+    .filter((result): result is RouteSearchResult => result !== null)
+    .sort((a, b) => a.detourDuration - b.detourDuration);
+}
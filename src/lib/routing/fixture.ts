@@ -0,0 +1,87 @@
+import { Coordinates, Route, RouteLeg, TravelMode } from '@/types/navigation';
+import { calculateDistance } from '@/lib/geometry';
+import { travelModes } from '@/lib/travel-modes';
+import { DirectionsResponse, directionsResponseSchema } from '@/lib/mapbox-client';
+import { toRoutes } from '@/lib/routing/mapbox';
+import type { RoutingProvider } from '@/lib/routing/provider';
+import routesFixture from '@/data/routes.fixture.json';
+
+const MATCH_RADIUS = 300; // meters between a fixture endpoint and a requested point
+
+function toCoordinates([lng, lat]: [number, number]): Coordinates {
+  return { lng, lat };
+}
+
+// Straight legs between the points, for requests no recorded route matches
+function straightLineRoute(coordinates: Coordinates[], profile: TravelMode): Route {
+  const { verb, averageSpeed } = travelModes[profile];
+
+  const legs: RouteLeg[] = coordinates.slice(1).map((to, legIndex) => {
+    const from = coordinates[legIndex];
+    const distance = calculateDistance(from, to);
+    const duration = distance / averageSpeed;
+    const isLastLeg = legIndex === coordinates.length - 2;
+
+    return {
+      distance,
+      duration,
+      steps: [
+        {
+          instruction: `${verb} em frente`,
+          distance,
+          duration,
+          maneuver: { type: legIndex === 0 ? 'depart' : 'continue', location: [from.lng, from.lat] },
+          legIndex,
+        },
+        {
+          instruction: isLastLeg ? 'Você chegou ao destino' : 'Você chegou à parada',
+          distance: 0,
+          duration: 0,
+          maneuver: { type: 'arrive', location: [to.lng, to.lat] },
+          legIndex,
+        },
+      ],
+    };
+  });
+
+  return {
+    id: 'route-0',
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+    geometry: { coordinates: coordinates.map(coord => [coord.lng, coord.lat]) },
+    steps: legs.flatMap(leg => leg.steps),
+    legs,
+    profile,
+    hasTolls: false,
+    hasFerries: false,
+    isAlternative: false,
+  };
+}
+
+// Recorded Directions responses so the navigation UI runs with no network:
+// requests between a recorded route's endpoints get that route (and its
+// alternatives), anything else a straight line through the points.
+export function createFixtureRoutingProvider(
+  fixture: DirectionsResponse = directionsResponseSchema.parse(routesFixture)
+): RoutingProvider {
+  return {
+    async getRoutes({ coordinates, profile, alternatives }) {
+      const origin = coordinates[0];
+      const destination = coordinates[coordinates.length - 1];
+
+      const matching = fixture.routes.filter(route => {
+        const path = route.geometry.coordinates;
+        return (
+          coordinates.length === 2 &&
+          calculateDistance(origin, toCoordinates(path[0])) <= MATCH_RADIUS &&
+          calculateDistance(destination, toCoordinates(path[path.length - 1])) <= MATCH_RADIUS
+        );
+      });
+
+      if (matching.length === 0) {
+        return [straightLineRoute(coordinates, profile)];
+      }
+      return toRoutes({ code: 'Ok', routes: alternatives ? matching : matching.slice(0, 1) }, profile, 'fixture');
+    },
+  };
+}
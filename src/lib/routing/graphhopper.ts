@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { Route, RouteLeg, RouteStep, TravelMode } from '@/types/navigation';
+import { baseProfile } from '@/lib/travel-modes';
+import { ApiError, isApiError, requestJson } from '@/lib/api-client';
+import type { RoutingProvider } from '@/lib/routing/provider';
+
+const DEFAULT_GRAPHHOPPER_URL = 'http://localhost:8989';
+const MAX_PATHS = 3;
+
+const PROFILES: Record<Exclude<TravelMode, 'driving-traffic'>, string> = {
+  driving: 'car',
+  walking: 'foot',
+  cycling: 'bike',
+};
+
+const VIA_REACHED = 5;
+const FINISH = 4;
+
+// GraphHopper instruction signs onto the Mapbox type/modifier vocabulary
+const SIGNS: Record<number, [string, string?]> = {
+  [-98]: ['turn', 'uturn'],
+  [-8]: ['turn', 'uturn'],
+  [-7]: ['fork', 'left'],
+  [-6]: ['exit roundabout'],
+  [-3]: ['turn', 'sharp left'],
+  [-2]: ['turn', 'left'],
+  [-1]: ['turn', 'slight left'],
+  0: ['continue', 'straight'],
+  1: ['turn', 'slight right'],
+  2: ['turn', 'right'],
+  3: ['turn', 'sharp right'],
+  [FINISH]: ['arrive'],
+  [VIA_REACHED]: ['arrive'],
+  6: ['roundabout'],
+  7: ['fork', 'right'],
+  8: ['turn', 'uturn'],
+};
+
+const graphHopperResponseSchema = z.object({
+  paths: z.array(
+    z.object({
+      distance: z.number(),
+      time: z.number(), // ms
+      points: z.object({ coordinates: z.array(z.tuple([z.number(), z.number()])) }),
+      instructions: z.array(
+        z.object({
+          text: z.string(),
+          distance: z.number(),
+          time: z.number(), // ms
+          sign: z.number(),
+          interval: z.tuple([z.number(), z.number()]),
+        })
+      ),
+    })
+  ),
+});
+
+type GraphHopperPath = z.infer<typeof graphHopperResponseSchema>['paths'][number];
+
+// GraphHopper has no legs, only "via reached" instructions between them
+function toRoute(path: GraphHopperPath, profile: TravelMode, index: number): Route {
+  const coordinates = path.points.coordinates;
+  const legs: RouteLeg[] = [{ distance: 0, duration: 0, steps: [] }];
+
+  path.instructions.forEach((instruction, i) => {
+    const leg = legs[legs.length - 1];
+    const [type, modifier] = i === 0 ? ['depart'] : (SIGNS[instruction.sign] ?? ['continue']);
+    const step: RouteStep = {
+      instruction: instruction.text,
+      distance: instruction.distance,
+      duration: instruction.time / 1000,
+      maneuver: { type, modifier, location: coordinates[instruction.interval[0]] },
+      legIndex: legs.length - 1,
+    };
+
+    leg.steps.push(step);
+    leg.distance += step.distance;
+    leg.duration += step.duration;
+    if (instruction.sign === VIA_REACHED) legs.push({ distance: 0, duration: 0, steps: [] });
+  });
+
+  return {
+    id: `route-${index}`,
+    distance: path.distance,
+    duration: path.time / 1000,
+    geometry: { coordinates },
+    steps: legs.flatMap(leg => leg.steps),
+    legs,
+    profile,
+    isAlternative: index > 0,
+  };
+}
+
+// Self-hosted GraphHopper, or the hosted API when given a key. Its GET API
+// has no avoid options, so no route exclusions are offered with it.
+export function createGraphHopperRoutingProvider(
+  baseUrl: string = DEFAULT_GRAPHHOPPER_URL,
+  key?: string
+): RoutingProvider {
+  return {
+    async getRoutes({ coordinates, profile, alternatives }) {
+      const params = new URLSearchParams({
+        profile: PROFILES[baseProfile(profile)],
+        locale: 'pt_BR',
+        points_encoded: 'false',
+        instructions: 'true',
+      });
+      coordinates.forEach(coord => params.append('point', `${coord.lat},${coord.lng}`));
+      if (alternatives) {
+        params.set('algorithm', 'alternative_route');
+        params.set('alternative_route.max_paths', String(MAX_PATHS));
+        params.set('ch.disable', 'true');
+      }
+      if (key) params.set('key', key);
+
+      try {
+        const data = await requestJson(`${baseUrl}/route?${params}`, graphHopperResponseSchema, 'GraphHopper');
+        if (data.paths.length === 0) {
+          throw new ApiError('no-route', 'GraphHopper returned no paths', 'GraphHopper');
+        }
+        return data.paths.map((path, index) => toRoute(path, profile, index));
+      } catch (error) {
+        // Points that cannot be connected come back as 400 with a message
+        if (isApiError(error, 'invalid-response') && error.status === 400) {
+          throw new ApiError('no-route', error.message, 'GraphHopper', 400);
+        }
+        throw error;
+      }
+    },
+  };
+}
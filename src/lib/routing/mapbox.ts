@@ -0,0 +1,76 @@
+import { Route, RouteLeg, TravelMode } from '@/types/navigation';
+import { phraseInstruction } from '@/lib/travel-modes';
+import { ApiError, directionsCodeError, requestJson } from '@/lib/api-client';
+import { DirectionsResponse, DirectionsRoute, directionsResponseSchema } from '@/lib/mapbox-client';
+import type { RoutingProvider } from '@/lib/routing/provider';
+
+// Tolls and ferries are flagged on step intersections (`classes`) and by the
+// step travel mode, since Mapbox has no route-level summary for them.
+function routeUsesClass(route: DirectionsRoute, roadClass: 'toll' | 'ferry'): boolean {
+  return route.legs.some(leg =>
+    leg.steps.some(
+      step =>
+        (roadClass === 'ferry' && step.mode === 'ferry') ||
+        (step.intersections ?? []).some(intersection => (intersection.classes ?? []).includes(roadClass))
+    )
+  );
+}
+
+// Also reads OSRM responses, which Mapbox Directions is derived from;
+// `service` names the one that answered in errors
+export function toRoutes(data: DirectionsResponse, profile: TravelMode, service: string): Route[] {
+  if (data.code !== 'Ok') {
+    throw directionsCodeError(data.code, data.message, service);
+  }
+  if (data.routes.length === 0) {
+    throw new ApiError('no-route', 'Directions returned no routes', service);
+  }
+
+  return data.routes.map((route, index) => {
+    const legs: RouteLeg[] = route.legs.map((leg, legIndex) => ({
+      distance: leg.distance,
+      duration: leg.duration,
+      steps: leg.steps.map(step => ({
+        instruction: phraseInstruction(step.maneuver.instruction, profile),
+        distance: step.distance,
+        duration: step.duration,
+        maneuver: {
+          type: step.maneuver.type,
+          modifier: step.maneuver.modifier,
+          location: step.maneuver.location,
+        },
+        legIndex,
+      })),
+    }));
+
+    return {
+      id: `route-${index}`,
+      distance: route.distance,
+      duration: route.duration,
+      geometry: route.geometry,
+      steps: legs.flatMap(leg => leg.steps),
+      legs,
+      profile,
+      hasTolls: routeUsesClass(route, 'toll'),
+      hasFerries: routeUsesClass(route, 'ferry'),
+      isAlternative: index > 0,
+    };
+  });
+}
+
+// Goes through our /api/directions route, which holds the Mapbox secret
+export function createMapboxRoutingProvider(endpoint: string = '/api/directions'): RoutingProvider {
+  return {
+    async getRoutes({ coordinates, profile, alternatives, exclude }) {
+      const params = new URLSearchParams({
+        coordinates: coordinates.map(coord => `${coord.lng},${coord.lat}`).join(';'),
+        profile,
+        alternatives: String(alternatives),
+      });
+      if (exclude.length > 0) params.set('exclude', exclude.join(','));
+
+      const data = await requestJson(`${endpoint}?${params}`, directionsResponseSchema, 'Mapbox');
+      return toRoutes(data, profile, 'Mapbox');
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { TravelMode } from '@/types/navigation';
+import { baseProfile, travelModes } from '@/lib/travel-modes';
+import { requestJson } from '@/lib/api-client';
+import { DirectionsResponse } from '@/lib/mapbox-client';
+import { toRoutes } from '@/lib/routing/mapbox';
+import type { RoutingProvider } from '@/lib/routing/provider';
+
+const DEFAULT_OSRM_URL = 'http://localhost:5000';
+
+const positionSchema = z.tuple([z.number(), z.number()]);
+
+// Same shape as Mapbox Directions, minus the instruction text
+const osrmResponseSchema = z.object({
+  code: z.string(),
+  message: z.string().optional(),
+  routes: z
+    .array(
+      z.object({
+        distance: z.number(),
+        duration: z.number(),
+        geometry: z.object({ coordinates: z.array(positionSchema) }),
+        legs: z.array(
+          z.object({
+            distance: z.number(),
+            duration: z.number(),
+            steps: z.array(
+              z.object({
+                distance: z.number(),
+                duration: z.number(),
+                name: z.string().default(''),
+                mode: z.string().optional(),
+                maneuver: z.object({
+                  type: z.string(),
+                  modifier: z.string().optional(),
+                  location: positionSchema,
+                  exit: z.number().optional(),
+                }),
+                intersections: z.array(z.object({ classes: z.array(z.string()).optional() })).optional(),
+              })
+            ),
+          })
+        ),
+      })
+    )
+    .default([]),
+});
+
+const DIRECTIONS: Record<string, string> = {
+  left: 'à esquerda',
+  right: 'à direita',
+  'slight left': 'levemente à esquerda',
+  'slight right': 'levemente à direita',
+  'sharp left': 'acentuadamente à esquerda',
+  'sharp right': 'acentuadamente à direita',
+};
+
+// OSRM only names the maneuver, so phrase it the way Mapbox would in pt-BR
+export function describeManeuver(
+  { type, modifier, exit }: { type: string; modifier?: string; exit?: number },
+  name: string,
+  mode: TravelMode,
+  isLastLeg: boolean
+): string {
+  const onto = name ? ` em ${name}` : '';
+  const direction = modifier ? DIRECTIONS[modifier] : undefined;
+
+  switch (type) {
+    case 'depart':
+      return name ? `${travelModes[mode].verb} por ${name}` : `${travelModes[mode].verb} em frente`;
+    case 'arrive':
+      return isLastLeg ? 'Você chegou ao destino' : 'Você chegou à parada';
+    case 'roundabout':
+    case 'rotary':
+      return exit ? `Na rotatória, pegue a ${exit}ª saída${onto}` : `Entre na rotatória${onto}`;
+    case 'exit roundabout':
+    case 'exit rotary':
+      return `Saia da rotatória${onto}`;
+  }
+
+  if (modifier === 'uturn') return `Faça o retorno${onto}`;
+  if (!direction) return `Continue${onto || ' em frente'}`;
+
+  switch (type) {
+    case 'fork':
+      return `Mantenha-se ${direction}${onto}`;
+    case 'merge':
+      return `Entre ${direction}${onto}`;
+    case 'on ramp':
+      return `Pegue a rampa ${direction}${onto}`;
+    case 'off ramp':
+      return `Pegue a saída ${direction}${onto}`;
+    default:
+      return `Vire ${direction}${onto}`;
+  }
+}
+
+// Self-hosted OSRM speaks the Mapbox Directions format; exclusions only work
+// for the classes the server's profile defines
+export function createOsrmRoutingProvider(baseUrl: string = DEFAULT_OSRM_URL): RoutingProvider {
+  return {
+    async getRoutes({ coordinates, profile, alternatives, exclude }) {
+      const points = coordinates.map(coord => `${coord.lng},${coord.lat}`).join(';');
+      const params = new URLSearchParams({
+        alternatives: String(alternatives),
+        geometries: 'geojson',
+        overview: 'full',
+        steps: 'true',
+      });
+      if (exclude.length > 0) params.set('exclude', exclude.join(','));
+
+      const data = await requestJson(
+        `${baseUrl}/route/v1/${baseProfile(profile)}/${points}?${params}`,
+        osrmResponseSchema,
+        'OSRM'
+      );
+
+      const response: DirectionsResponse = {
+        ...data,
+        routes: data.routes.map(route => ({
+          ...route,
+          legs: route.legs.map((leg, legIndex) => ({
+            ...leg,
+            steps: leg.steps.map(step => ({
+              ...step,
+              maneuver: {
+                ...step.maneuver,
+                instruction: describeManeuver(step.maneuver, step.name, profile, legIndex === route.legs.length - 1),
+              },
+            })),
+          })),
+        })),
+      };
+      return toRoutes(response, profile, 'OSRM');
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { Coordinates, Route, RouteExclusion, TravelMode } from '@/types/navigation';
+import { createMapboxRoutingProvider } from '@/lib/routing/mapbox';
+
+export interface RoutingRequest {
+  // Origin, stops and destination, in order
+  coordinates: Coordinates[];
+  profile: TravelMode;
+  alternatives: boolean;
+  exclude: RouteExclusion[];
+}
+
+// Backends report failures as ApiError, so the UI handles every
+// provider the same way; `no-route` means nothing connects the points
+export interface RoutingProvider {
+  getRoutes(request: RoutingRequest): Promise<Route[]>;
+}
+
+export type RoutingProviderName = 'mapbox' | 'osrm' | 'valhalla' | 'graphhopper' | 'fixture';
+
+// Only Mapbox, the default, is bundled up front; the other backends (and the
+// fixture's route data) load on first use, so they cost nothing when unused
+export async function createRoutingProvider(name: RoutingProviderName): Promise<RoutingProvider> {
+  switch (name) {
+    case 'osrm': {
+      const { createOsrmRoutingProvider } = await import('@/lib/routing/osrm');
+      return createOsrmRoutingProvider(process.env.NEXT_PUBLIC_OSRM_URL);
+    }
+    case 'valhalla': {
+      const { createValhallaRoutingProvider } = await import('@/lib/routing/valhalla');
+      return createValhallaRoutingProvider(process.env.NEXT_PUBLIC_VALHALLA_URL);
+    }
+    case 'graphhopper': {
+      const { createGraphHopperRoutingProvider } = await import('@/lib/routing/graphhopper');
+      return createGraphHopperRoutingProvider(
+        process.env.NEXT_PUBLIC_GRAPHHOPPER_URL,
+        process.env.NEXT_PUBLIC_GRAPHHOPPER_KEY
+      );
+    }
+    case 'fixture': {
+      const { createFixtureRoutingProvider } = await import('@/lib/routing/fixture');
+      return createFixtureRoutingProvider();
+    }
+    case 'mapbox':
+      return createMapboxRoutingProvider();
+  }
+}
+
+// Chosen by NEXT_PUBLIC_ROUTING_PROVIDER, Mapbox when unset or unknown
+export function getRoutingProviderName(): RoutingProviderName {
+  const name = process.env.NEXT_PUBLIC_ROUTING_PROVIDER as RoutingProviderName | undefined;
+  const known: RoutingProviderName[] = ['mapbox', 'osrm', 'valhalla', 'graphhopper', 'fixture'];
+  return name && known.includes(name) ? name : 'mapbox';
+}
+
+let defaultProvider: Promise<RoutingProvider> | null = null;
+
+export function getRoutingProvider(): Promise<RoutingProvider> {
+  if (!defaultProvider) {
+    // A backend chunk that failed to load is retried on the next request
+    defaultProvider = createRoutingProvider(getRoutingProviderName()).catch(error => {
+      defaultProvider = null;
+      throw error;
+    });
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import { Route, RouteExclusion, RouteLeg, TravelMode } from '@/types/navigation';
+import { baseProfile } from '@/lib/travel-modes';
+import { ApiError, isApiError, requestJson } from '@/lib/api-client';
+import type { RoutingProvider } from '@/lib/routing/provider';
+
+const DEFAULT_VALHALLA_URL = 'http://localhost:8002';
+const MAX_ALTERNATES = 2;
+
+const COSTING: Record<Exclude<TravelMode, 'driving-traffic'>, string> = {
+  driving: 'auto',
+  walking: 'pedestrian',
+  cycling: 'bicycle',
+};
+
+const EXCLUSION_OPTIONS: Record<RouteExclusion, Record<string, number | boolean>> = {
+  toll: { use_tolls: 0 },
+  cash_only_tolls: { exclude_cash_only_tolls: true },
+  motorway: { use_highways: 0 },
+  ferry: { use_ferry: 0 },
+  unpaved: { exclude_unpaved: true },
+};
+
+// Valhalla numbers its maneuvers; mapped onto the Mapbox type/modifier vocabulary
+const MANEUVERS: Record<number, [string, string?]> = {
+  1: ['depart'],
+  2: ['depart', 'right'],
+  3: ['depart', 'left'],
+  4: ['arrive'],
+  5: ['arrive', 'right'],
+  6: ['arrive', 'left'],
+  7: ['new name', 'straight'],
+  8: ['continue', 'straight'],
+  9: ['turn', 'slight right'],
+  10: ['turn', 'right'],
+  11: ['turn', 'sharp right'],
+  12: ['turn', 'uturn'],
+  13: ['turn', 'uturn'],
+  14: ['turn', 'sharp left'],
+  15: ['turn', 'left'],
+  16: ['turn', 'slight left'],
+  17: ['on ramp', 'straight'],
+  18: ['on ramp', 'right'],
+  19: ['on ramp', 'left'],
+  20: ['off ramp', 'right'],
+  21: ['off ramp', 'left'],
+  22: ['fork', 'straight'],
+  23: ['fork', 'right'],
+  24: ['fork', 'left'],
+  25: ['merge', 'straight'],
+  26: ['roundabout'],
+  27: ['exit roundabout'],
+  37: ['merge', 'right'],
+  38: ['merge', 'left'],
+};
+
+const tripSchema = z.object({
+  legs: z.array(
+    z.object({
+      shape: z.string(),
+      summary: z.object({ length: z.number(), time: z.number() }),
+      maneuvers: z.array(
+        z.object({
+          type: z.number(),
+          instruction: z.string(),
+          length: z.number(), // km
+          time: z.number(),
+          begin_shape_index: z.number(),
+        })
+      ),
+    })
+  ),
+  summary: z.object({
+    length: z.number(), // km
+    time: z.number(),
+    has_toll: z.boolean().optional(),
+    has_ferry: z.boolean().optional(),
+  }),
+});
+
+const valhallaResponseSchema = z.object({
+  trip: tripSchema,
+  alternates: z.array(z.object({ trip: tripSchema })).optional(),
+});
+
+type ValhallaTrip = z.infer<typeof tripSchema>;
+
+// Valhalla shapes are Google encoded polylines with six decimals, lat first
+export function decodePolyline(encoded: string, precision: number = 6): [number, number][] {
+  const factor = 10 ** precision;
+  const coordinates: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    coordinates.push([lng / factor, lat / factor]);
+  }
+  return coordinates;
+}
+
+function toRoute(trip: ValhallaTrip, profile: TravelMode, index: number): Route {
+  const coordinates: [number, number][] = [];
+
+  const legs: RouteLeg[] = trip.legs.map((leg, legIndex) => {
+    const shape = decodePolyline(leg.shape);
+    // Each leg starts where the previous one ended
+    coordinates.push(...(legIndex > 0 ? shape.slice(1) : shape));
+
+    return {
+      distance: leg.summary.length * 1000,
+      duration: leg.summary.time,
+      steps: leg.maneuvers.map(maneuver => {
+        const [type, modifier] = MANEUVERS[maneuver.type] ?? ['continue'];
+        return {
+          instruction: maneuver.instruction,
+          distance: maneuver.length * 1000,
+          duration: maneuver.time,
+          maneuver: { type, modifier, location: shape[maneuver.begin_shape_index] },
+          legIndex,
+        };
+      }),
+    };
+  });
+
+  return {
+    id: `route-${index}`,
+    distance: trip.summary.length * 1000,
+    duration: trip.summary.time,
+    geometry: { coordinates },
+    steps: legs.flatMap(leg => leg.steps),
+    legs,
+    profile,
+    hasTolls: trip.summary.has_toll ?? false,
+    hasFerries: trip.summary.has_ferry ?? false,
+    isAlternative: index > 0,
+  };
+}
+
+// Self-hosted Valhalla, which phrases its own pt-BR instructions
+export function createValhallaRoutingProvider(baseUrl: string = DEFAULT_VALHALLA_URL): RoutingProvider {
+  return {
+    async getRoutes({ coordinates, profile, alternatives, exclude }) {
+      const costing = COSTING[baseProfile(profile)];
+      const request = {
+        locations: coordinates.map(coord => ({ lat: coord.lat, lon: coord.lng })),
+        costing,
+        costing_options: { [costing]: Object.assign({}, ...exclude.map(exclusion => EXCLUSION_OPTIONS[exclusion])) },
+        directions_options: { units: 'kilometers', language: 'pt-BR' },
+        alternates: alternatives ? MAX_ALTERNATES : 0,
+      };
+
+      try {
+        const data = await requestJson(
+          `${baseUrl}/route?json=${encodeURIComponent(JSON.stringify(request))}`,
+          valhallaResponseSchema,
+          'Valhalla'
+        );
+        return [data.trip, ...(data.alternates ?? []).map(alternate => alternate.trip)].map((trip, index) =>
+          toRoute(trip, profile, index)
+        );
+      } catch (error) {
+        // Valhalla answers 400 with its own error codes when no path exists
+        if (isApiError(error, 'invalid-response') && error.status === 400) {
+          throw new ApiError('no-route', error.message, 'Valhalla', 400);
+        }
+        throw error;
+      }
+    },
+  };
+}
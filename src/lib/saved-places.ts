@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { Coordinates, SavedPlace } from '@/types/navigation';
+import { supabase } from '@/lib/supabase';
+import { readLocal, writeLocal } from '@/lib/storage';
+
+export type SavedPlaceKind = SavedPlace['kind'];
+
+export const savedPlaceKinds: Record<SavedPlaceKind, { label: string }> = {
+  home: { label: 'Casa' },
+  work: { label: 'Trabalho' },
+  favorite: { label: 'Favorito' },
+};
+
+export interface SavedPlacesStore {
+  list(): Promise<SavedPlace[]>;
+  save(place: SavedPlace): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// Home and Work are singletons, so they get fixed ids and saving replaces them
+export function createSavedPlace(
+  kind: SavedPlaceKind,
+  coordinates: Coordinates,
+  address: string,
+  label: string = savedPlaceKinds[kind].label
+): SavedPlace {
+  return {
+    id: kind === 'favorite' ? `favorite-${Date.now()}` : kind,
+    kind,
+    label,
+    address,
+    coordinates,
+    updatedAt: Date.now(),
+  };
+}
+
+export function createLocalSavedPlacesStore(storageKey: string = 'saved-places'): SavedPlacesStore {
+  let places = readLocal<SavedPlace[]>(storageKey, []);
+
+  return {
+    async list() {
+      return [...places];
+    },
+    async save(place) {
+      places = [...places.filter(p => p.id !== place.id), place];
+      writeLocal(storageKey, places);
+    },
+    async remove(id) {
+      places = places.filter(place => place.id !== id);
+      writeLocal(storageKey, places);
+    },
+  };
+}
+
+// Removal times by place id. A removal is kept like an edit, so the newest of
+// "saved" and "removed" wins wherever the place still has a copy.
+export type SavedPlaceRemovals = Record<string, number>;
+
+// The remote side of the sync. `pull` resolves null when there is nobody to
+// sync for (no signed-in user), and writes are skipped in that case.
+export interface RemoteSavedPlaces {
+  pull(): Promise<{ places: SavedPlace[]; removals: SavedPlaceRemovals } | null>;
+  save(place: SavedPlace): Promise<void>;
+  remove(id: string, removedAt: number): Promise<void>;
+}
+
+const savedPlaceRowSchema = z.object({
+  id: z.string(),
+  kind: z.enum(['home', 'work', 'favorite']),
+  label: z.string(),
+  address: z.string(),
+  lng: z.number(),
+  lat: z.number(),
+  updated_at: z.number(),
+  // Set on removed places, which stay behind as tombstones
+  removed_at: z.number().nullable(),
+});
+
+type SavedPlaceRow = z.infer<typeof savedPlaceRowSchema> & { owner_id: string };
+
+// Expects a `saved_places` table keyed on (owner_id, id), with owner_id
+// referencing auth.users and row level security limiting every operation to
+// `owner_id = auth.uid()`, so the anon key alone can read nobody's places.
+// Places only sync for a signed-in user: that account is what links devices.
+export function createSupabaseRemoteSavedPlaces(): RemoteSavedPlaces {
+  if (!supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  const client = supabase;
+
+  const currentUserId = async (): Promise<string | null> => {
+    const { data, error } = await client.auth.getSession();
+    if (error) throw error;
+    return data.session?.user.id ?? null;
+  };
+
+  return {
+    async pull() {
+      const ownerId = await currentUserId();
+      if (!ownerId) return null;
+
+      const { data, error } = await client.from('saved_places').select('*').eq('owner_id', ownerId);
+      if (error) throw error;
+
+      const places: SavedPlace[] = [];
+      const removals: SavedPlaceRemovals = {};
+      for (const entry of data ?? []) {
+        const parsed = savedPlaceRowSchema.safeParse(entry);
+        if (!parsed.success) continue;
+
+        const row = parsed.data;
+        if (row.removed_at !== null) {
+          removals[row.id] = row.removed_at;
+        } else {
+          places.push({
+            id: row.id,
+            kind: row.kind,
+            label: row.label,
+            address: row.address,
+            coordinates: { lng: row.lng, lat: row.lat },
+            updatedAt: row.updated_at,
+          });
+        }
+      }
+      return { places, removals };
+    },
+    async save(place) {
+      const ownerId = await currentUserId();
+      if (!ownerId) return;
+
+      const row: SavedPlaceRow = {
+        owner_id: ownerId,
+        id: place.id,
+        kind: place.kind,
+        label: place.label,
+        address: place.address,
+        lng: place.coordinates.lng,
+        lat: place.coordinates.lat,
+        updated_at: place.updatedAt,
+        removed_at: null,
+      };
+      const { error } = await client.from('saved_places').upsert(row, { onConflict: 'owner_id,id' });
+      if (error) throw error;
+    },
+    async remove(id, removedAt) {
+      const ownerId = await currentUserId();
+      if (!ownerId) return;
+
+      const { error } = await client
+        .from('saved_places')
+        .update({ removed_at: removedAt, updated_at: removedAt })
+        .eq('owner_id', ownerId)
+        .eq('id', id);
+      if (error) throw error;
+    },
+  };
+}
+
+// Local storage stays the source of truth so places work offline. On list,
+// every place is reconciled with the remote copy: the newest save or removal
+// wins on both sides, so a write that failed to reach the remote is retried,
+// and a removal made on one device reaches the others.
+export function createSyncedSavedPlacesStore(
+  local: SavedPlacesStore,
+  remote: RemoteSavedPlaces,
+  removalsKey: string = 'saved-place-removals'
+): SavedPlacesStore {
+  let removals = readLocal<SavedPlaceRemovals>(removalsKey, {});
+
+  const setRemoval = (id: string, removedAt: number | null) => {
+    removals = { ...removals };
+    if (removedAt === null) delete removals[id];
+    else removals[id] = removedAt;
+    writeLocal(removalsKey, removals);
+  };
+
+  const reconcile = async (
+    localPlaces: SavedPlace[],
+    remoteState: { places: SavedPlace[]; removals: SavedPlaceRemovals }
+  ): Promise<SavedPlace[]> => {
+    const localById = new Map(localPlaces.map(place => [place.id, place]));
+    const remoteById = new Map(remoteState.places.map(place => [place.id, place]));
+    const ids = new Set([
+      ...localById.keys(),
+      ...remoteById.keys(),
+      ...Object.keys(removals),
+      ...Object.keys(remoteState.removals),
+    ]);
+    const pushes: Promise<void>[] = [];
+
+    for (const id of ids) {
+      const localPlace = localById.get(id);
+      const remotePlace = remoteById.get(id);
+      const removedAt = Math.max(removals[id] ?? 0, remoteState.removals[id] ?? 0);
+      const latest = [localPlace, remotePlace].reduce<SavedPlace | undefined>(
+        (newest, place) => (place && (!newest || place.updatedAt > newest.updatedAt) ? place : newest),
+        undefined
+      );
+
+      if (latest && latest.updatedAt > removedAt) {
+        if (latest !== localPlace) await local.save(latest);
+        if (latest !== remotePlace) pushes.push(remote.save(latest));
+        if (removals[id] !== undefined) setRemoval(id, null);
+        continue;
+      }
+
+      if (localPlace) await local.remove(id);
+      if (remotePlace || (removals[id] ?? 0) > (remoteState.removals[id] ?? 0)) {
+        pushes.push(remote.remove(id, removedAt));
+      }
+      // Once the remote holds the tombstone, other devices learn of it from there
+      if ((remoteState.removals[id] ?? 0) >= removedAt) {
+        if (removals[id] !== undefined) setRemoval(id, null);
+      } else {
+        setRemoval(id, removedAt);
+      }
+    }
+
+    const results = await Promise.allSettled(pushes);
+    results.forEach(result => {
+      if (result.status === 'rejected') console.error('Error syncing saved place:', result.reason);
+    });
+    return local.list();
+  };
+
+  return {
+    async list() {
+      const localPlaces = await local.list();
+
+      try {
+        const remoteState = await remote.pull();
+        return remoteState ? await reconcile(localPlaces, remoteState) : localPlaces;
+      } catch (error) {
+        console.error('Error syncing saved places:', error);
+        return local.list();
+      }
+    },
+    async save(place) {
+      await local.save(place);
+      if (removals[place.id] !== undefined) setRemoval(place.id, null);
+      remote.save(place).catch(error => console.error('Error syncing saved place:', error));
+    },
+    async remove(id) {
+      const removedAt = Date.now();
+      await local.remove(id);
+      // Kept until the remote has it, so a failed removal is retried on the next list
+      setRemoval(id, removedAt);
+      remote.remove(id, removedAt).catch(error => console.error('Error syncing saved place removal:', error));
+    },
+  };
+}
+
+export function getSavedPlacesStore(): SavedPlacesStore {
+  const local = createLocalSavedPlacesStore();
+  return supabase ? createSyncedSavedPlacesStore(local, createSupabaseRemoteSavedPlaces()) : local;
+}
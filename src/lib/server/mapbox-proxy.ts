@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Coordinates } from '@/types/navigation';
+import { ResponseCache, createResponseCache } from '@/lib/response-cache';
+import { RateLimiter, getClientKey } from '@/lib/server/rate-limit';
+
+// Server-only secret; never exposed through a NEXT_PUBLIC_ variable
+const MAPBOX_ACCESS_TOKEN = process.env.MAPBOX_ACCESS_TOKEN || '';
+const MAPBOX_API = 'https://api.mapbox.com';
+const MAX_CACHE_ENTRIES = 500;
+
+interface ProxiedResponse {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+export interface ProxyCache {
+  cache: ResponseCache<ProxiedResponse>;
+  maxAge: number; // seconds
+}
+
+// Only successful responses are kept; errors are shared with concurrent
+// identical requests but retried afterwards
+export function createProxyCache(name: string, maxAge: number): ProxyCache {
+  return {
+    cache: createResponseCache<ProxiedResponse>({
+      name,
+      ttl: maxAge * 1000,
+      maxEntries: MAX_CACHE_ENTRIES,
+      isCacheable: response => response.status === 200,
+    }),
+    maxAge,
+  };
+}
+
+function jsonResponse(body: string, status: number, headers: Record<string, string> = {}): NextResponse {
+  return new NextResponse(body, {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+// A "lng,lat" pair with both values in range, parsed into Coordinates
+export const lngLatSchema = z
+  .string()
+  .regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, 'Expected "lng,lat"')
+  .transform((value): Coordinates => {
+    const [lng, lat] = value.split(',').map(Number);
+    return { lng, lat };
+  })
+  .refine(({ lng, lat }) => Math.abs(lng) <= 180 && Math.abs(lat) <= 90, 'Coordinates out of range');
+
+// Rejects the request with 429 when the client is over its limit, otherwise null
+export function enforceRateLimit(request: NextRequest, limiter: RateLimiter): NextResponse | null {
+  const { allowed, retryAfter } = limiter.check(getClientKey(request.headers));
+  if (allowed) return null;
+
+  return jsonResponse(JSON.stringify({ message: 'Too many requests' }), 429, {
+    'Retry-After': String(retryAfter),
+  });
+}
+
+// Invalid input is answered in the shape Mapbox itself uses (422 with a
+// message, plus a `code` for Directions) so clients map errors the same way
+export function invalidInput(error: z.ZodError, code?: string): NextResponse {
+  const message = error.issues.map(issue => `${issue.path.join('.') || 'query'}: ${issue.message}`).join('; ');
+  return jsonResponse(JSON.stringify(code ? { code, message } : { message }), 422);
+}
+
+async function fetchMapbox(path: string, params: Record<string, string>): Promise<ProxiedResponse> {
+  const url = `${MAPBOX_API}${path}?${new URLSearchParams({ ...params, access_token: MAPBOX_ACCESS_TOKEN })}`;
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, { cache: 'no-store' });
+  } catch (error) {
+    console.error('Error reaching Mapbox:', error);
+    return { status: 502, body: JSON.stringify({ message: 'Mapbox is unreachable' }), headers: {} };
+  }
+
+  // Keep the rate limit hints so the client can back off accordingly
+  const headers: Record<string, string> = {};
+  for (const name of ['retry-after', 'x-rate-limit-reset']) {
+    const value = upstream.headers.get(name);
+    if (value) headers[name] = value;
+  }
+  return { status: upstream.status, body: await upstream.text(), headers };
+}
+
+// `cacheKey` identifies the request semantically (rounded coordinates and
+// options) so near-identical requests share a cached response
+export async function proxyMapbox(
+  path: string,
+  params: Record<string, string>,
+  { cache, maxAge }: ProxyCache,
+  cacheKey: string
+): Promise<NextResponse> {
+  // Reported as 401 so the client surfaces it like any other token problem
+  if (!MAPBOX_ACCESS_TOKEN) {
+    return jsonResponse(JSON.stringify({ message: 'MAPBOX_ACCESS_TOKEN is not set' }), 401);
+  }
+
+  const { status, body, headers } = await cache.get(cacheKey, () => fetchMapbox(path, params));
+  return jsonResponse(
+    body,
+    status,
+    status === 200 ? { 'Cache-Control': `private, max-age=${maxAge}` } : headers
+  );
+}
@@ -0,0 +1,49 @@
+const MAX_TRACKED_CLIENTS = 10000;
+
+export interface RateLimiter {
+  // Counts a request for `key`; `retryAfter` (seconds) is set when it is over the limit
+  check(key: string, now?: number): { allowed: boolean; retryAfter: number };
+}
+
+// Fixed window per client. State lives in the server process, so each instance
+// limits on its own — enough to stop one client from draining the Mapbox quota.
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const prune = (now: number) => {
+    windows.forEach((entry, key) => {
+      if (entry.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return {
+    check(key, now = Date.now()) {
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        windows.delete(key);
+        if (windows.size >= MAX_TRACKED_CLIENTS) prune(now);
+        // Every window still open: drop the oldest so the map stays bounded
+        if (windows.size >= MAX_TRACKED_CLIENTS) {
+          const oldest = windows.keys().next().value;
+          if (oldest !== undefined) windows.delete(oldest);
+        }
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+
+      entry.count++;
+      return entry.count <= limit
+        ? { allowed: true, retryAfter: 0 }
+        : { allowed: false, retryAfter: Math.ceil((entry.resetAt - now) / 1000) };
+    },
+  };
+}
+
+// The client can send its own x-forwarded-for, so only the hop appended by
+// our proxy (x-real-ip, or the right-most forwarded entry) is trusted
+export function getClientKey(headers: Headers): string {
+  const realIp = headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+  const forwarded = headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwarded || 'anonymous';
+}
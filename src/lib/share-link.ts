@@ -0,0 +1,113 @@
+import { Coordinates, PlaceSuggestion, Route, RouteExclusion, TravelMode, Waypoint } from '@/types/navigation';
+import { isTravelMode } from '@/lib/travel-modes';
+import { isRouteExclusion } from '@/lib/route-options';
+
+const COORDINATE_PRECISION = 5; // ~1 m
+const ROUTE_MATCH_TOLERANCE = 0.05; // share of distance two routes may differ and still match
+
+export interface SharedRoute {
+  origin: PlaceSuggestion;
+  destination: PlaceSuggestion;
+  waypoints: Waypoint[];
+  travelMode: TravelMode;
+  exclusions: RouteExclusion[];
+  routeIndex: number;
+  routeDistance: number | null;
+}
+
+function formatCoordinates(coordinates: Coordinates): string {
+  return `${coordinates.lng.toFixed(COORDINATE_PRECISION)},${coordinates.lat.toFixed(COORDINATE_PRECISION)}`;
+}
+
+function parseCoordinates(value: string | null): Coordinates | null {
+  if (!value) return null;
+
+  const [lng, lat] = value.split(',').map(Number);
+  if (!Number.isFinite(lng) || !Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lng, lat };
+}
+
+// Plain query params rather than an opaque blob, so a link stays readable
+// and survives being pasted through chat apps that mangle long tokens.
+export function encodeSharedRoute(shared: SharedRoute): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set('from', formatCoordinates(shared.origin.coordinates));
+  params.set('fromName', shared.origin.label);
+  params.set('to', formatCoordinates(shared.destination.coordinates));
+  params.set('toName', shared.destination.label);
+
+  for (const waypoint of shared.waypoints) {
+    params.append('via', formatCoordinates(waypoint.coordinates));
+    params.append('viaName', waypoint.label);
+  }
+
+  params.set('mode', shared.travelMode);
+  if (shared.exclusions.length > 0) {
+    params.set('avoid', shared.exclusions.join(','));
+  }
+  params.set('route', String(shared.routeIndex));
+  if (shared.routeDistance !== null) {
+    params.set('dist', String(Math.round(shared.routeDistance)));
+  }
+  return params;
+}
+
+export function decodeSharedRoute(params: URLSearchParams): SharedRoute | null {
+  const origin = parseCoordinates(params.get('from'));
+  const destination = parseCoordinates(params.get('to'));
+  if (!origin || !destination) return null;
+
+  const viaNames = params.getAll('viaName');
+  const waypoints = params
+    .getAll('via')
+    .map(parseCoordinates)
+    .flatMap((coordinates, index) =>
+      coordinates
+        ? [{ id: `shared-${index}`, label: viaNames[index] || `Parada ${index + 1}`, coordinates }]
+        : []
+    );
+
+  const mode = params.get('mode');
+  const routeIndex = Number(params.get('route'));
+  const routeDistance = Number(params.get('dist'));
+
+  return {
+    origin: { id: 'shared-origin', label: params.get('fromName') || 'Origem', coordinates: origin },
+    destination: {
+      id: 'shared-destination',
+      label: params.get('toName') || 'Destino',
+      coordinates: destination,
+    },
+    waypoints,
+    travelMode: mode && isTravelMode(mode) ? mode : 'driving',
+    exclusions: (params.get('avoid')?.split(',') ?? []).filter(isRouteExclusion),
+    routeIndex: Number.isInteger(routeIndex) && routeIndex >= 0 ? routeIndex : 0,
+    routeDistance: routeDistance > 0 ? routeDistance : null,
+  };
+}
+
+export function buildShareUrl(shared: SharedRoute, base: string): string {
+  return `${base}?${encodeSharedRoute(shared).toString()}`;
+}
+
+// Alternatives can come back in a different order for the recipient, so match
+// on distance first and only fall back to the shared position in the list.
+export function findSharedRoute(
+  routes: Route[],
+  preference: Pick<SharedRoute, 'routeIndex' | 'routeDistance'>
+): Route | null {
+  if (routes.length === 0) return null;
+
+  const { routeIndex, routeDistance } = preference;
+  if (routeDistance !== null) {
+    const closest = routes.reduce((best, route) =>
+      Math.abs(route.distance - routeDistance) < Math.abs(best.distance - routeDistance) ? route : best
+    );
+    if (Math.abs(closest.distance - routeDistance) <= routeDistance * ROUTE_MATCH_TOLERANCE) {
+      return closest;
+    }
+  }
+  return routes[routeIndex] ?? routes[0];
+}
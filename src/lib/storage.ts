@@ -0,0 +1,36 @@
+const STORAGE_PREFIX = 'tumaps:';
+
+export function readLocal<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key} from localStorage:`, error);
+    return fallback;
+  }
+}
+
+export function writeLocal<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error writing ${key} to localStorage:`, error);
+  }
+}
+
+// Anonymous per-device identifier used to attribute reports and votes
+export function getDeviceId(): string {
+  const existing = readLocal<string | null>('device-id', null);
+  if (existing) return existing;
+
+  const id =
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `device-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  writeLocal('device-id', id);
+  return id;
+}
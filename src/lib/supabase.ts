@@ -0,0 +1,22 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+// Null when the project isn't configured, so callers can fall back to local storage
+export const supabase: SupabaseClient | null =
+  SUPABASE_URL && SUPABASE_ANON_KEY ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY) : null;
+
+// Rows are whatever the table holds, so each one is checked; a row that
+// doesn't match is dropped rather than breaking the whole list
+export function parseRows<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, rows: unknown[] | null): T[] {
+  return (rows ?? []).flatMap(row => {
+    const parsed = schema.safeParse(row);
+    if (!parsed.success) {
+      console.warn('Skipping invalid row:', parsed.error.message);
+      return [];
+    }
+    return [parsed.data];
+  });
+}
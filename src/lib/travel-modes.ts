@@ -0,0 +1,25 @@
+import { TravelMode } from '@/types/navigation';
+import { isOwnKey } from '@/lib/utils';
+
+// averageSpeed is a typical urban speed in m/s, for estimates made without the Directions API
+export const travelModes: Record<TravelMode, { label: string; verb: string; averageSpeed: number }> = {
+  driving: { label: 'Carro', verb: 'Siga', averageSpeed: 30 / 3.6 },
+  'driving-traffic': { label: 'Carro (trânsito)', verb: 'Siga', averageSpeed: 25 / 3.6 },
+  walking: { label: 'A pé', verb: 'Caminhe', averageSpeed: 5 / 3.6 },
+  cycling: { label: 'Bicicleta', verb: 'Pedale', averageSpeed: 15 / 3.6 },
+};
+
+export function isTravelMode(value: string): value is TravelMode {
+  return isOwnKey(travelModes, value);
+}
+
+// Mapbox phrases pt-BR instructions for drivers ("Siga", "Dirija"), whatever the profile
+export function phraseInstruction(instruction: string, mode: TravelMode): string {
+  const { verb } = travelModes[mode];
+  return instruction.replace(/^(Siga|Dirija)\b/, verb);
+}
+
+// Optimization and some other Mapbox APIs don't offer the traffic-aware profile
+export function baseProfile(mode: TravelMode): Exclude<TravelMode, 'driving-traffic'> {
+  return mode === 'driving-traffic' ? 'driving' : mode;
+}
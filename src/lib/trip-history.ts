@@ -0,0 +1,98 @@
+import { Coordinates, PlaceSuggestion, Trip } from '@/types/navigation';
+import { calculateDistance } from '@/lib/geometry';
+import { readLocal, writeLocal } from '@/lib/storage';
+import { CURRENT_LOCATION_ID } from '@/lib/geolocation';
+
+const MAX_TRIPS = 50;
+const MAX_RECENT_SEARCHES = 8;
+const TRACK_MIN_SPACING = 15; // meters between recorded breadcrumbs
+
+export interface TrackRecording {
+  startedAt: number;
+  track: [number, number][];
+  trackTimes: number[];
+}
+
+export interface TripStore {
+  list(): Promise<Trip[]>;
+  save(trip: Trip): Promise<void>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Trips stay on the device: a breadcrumb track is too personal to sync by default
+export function createLocalTripStore(storageKey: string = 'trips'): TripStore {
+  let trips = readLocal<Trip[]>(storageKey, []);
+
+  const persist = () => writeLocal(storageKey, trips);
+
+  return {
+    async list() {
+      return [...trips].sort((a, b) => b.startedAt - a.startedAt);
+    },
+    async save(trip) {
+      trips = [trip, ...trips.filter(t => t.id !== trip.id)]
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(0, MAX_TRIPS);
+      persist();
+    },
+    async remove(id) {
+      trips = trips.filter(trip => trip.id !== id);
+      persist();
+    },
+    async clear() {
+      trips = [];
+      persist();
+    },
+  };
+}
+
+export function getTripStore(): TripStore {
+  return createLocalTripStore();
+}
+
+export function startTrackRecording(start: Coordinates | null, now: number = Date.now()): TrackRecording {
+  return {
+    startedAt: now,
+    track: start ? [[start.lng, start.lat]] : [],
+    trackTimes: start ? [now] : [],
+  };
+}
+
+// GPS fixes arrive every second or so; only keep ones that moved noticeably
+export function appendTrackPoint(
+  recording: TrackRecording,
+  location: Coordinates,
+  timestamp: number = Date.now()
+): TrackRecording {
+  const last = recording.track[recording.track.length - 1];
+  if (last && calculateDistance({ lng: last[0], lat: last[1] }, location) < TRACK_MIN_SPACING) {
+    return recording;
+  }
+  return {
+    ...recording,
+    track: [...recording.track, [location.lng, location.lat]],
+    trackTimes: [...recording.trackTimes, timestamp],
+  };
+}
+
+export function getActualDuration(trip: Trip): number {
+  return (trip.endedAt - trip.startedAt) / 1000;
+}
+
+export function loadRecentSearches(): PlaceSuggestion[] {
+  return readLocal<PlaceSuggestion[]>('recent-searches', []);
+}
+
+// Most recent first, one entry per place; the live location is not a search
+export function addRecentSearch(place: PlaceSuggestion): PlaceSuggestion[] {
+  const recent = loadRecentSearches();
+  if (place.id === CURRENT_LOCATION_ID) return recent;
+
+  const updated = [place, ...recent.filter(p => p.id !== place.id && p.label !== place.label)].slice(
+    0,
+    MAX_RECENT_SEARCHES
+  );
+  writeLocal('recent-searches', updated);
+  return updated;
+}
@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Own keys only, so values read from URLs, storage or the map can't match
+// Object.prototype members like "constructor"
+export function isOwnKey<K extends string>(record: Record<K, unknown>, value: string): value is K {
+  return Object.hasOwn(record, value)
+}
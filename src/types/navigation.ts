@@ -3,6 +3,10 @@ export interface Coordinates {
   lat: number;
 }
 
+export type TravelMode = 'driving' | 'driving-traffic' | 'walking' | 'cycling';
+
+export type RouteExclusion = 'toll' | 'motorway' | 'ferry' | 'unpaved' | 'cash_only_tolls';
+
 export interface RouteStep {
   instruction: string;
   distance: number;
@@ -10,7 +14,15 @@ export interface RouteStep {
   maneuver: {
     type: string;
     modifier?: string;
+    location?: [number, number];
   };
+  legIndex?: number;
+}
+
+export interface RouteLeg {
+  distance: number;
+  duration: number;
+  steps: RouteStep[];
 }
 
 export interface Route {
@@ -21,7 +33,12 @@ export interface Route {
     coordinates: [number, number][];
   };
   steps: RouteStep[];
+  legs?: RouteLeg[];
+  profile?: TravelMode;
+  hasTolls?: boolean;
+  hasFerries?: boolean;
   isAlternative?: boolean;
+  isImported?: boolean; // followed as-is from a file, never rerouted
 }
 
 export interface POI {
@@ -42,13 +59,100 @@ export interface TrafficAlert {
   validated: boolean;
 }
 
+export interface PlaceSuggestion {
+  id: string;
+  label: string;
+  coordinates: Coordinates;
+}
+
+// A geocoding result split into Brazilian address parts, whatever the provider
+export interface Place extends PlaceSuggestion {
+  street?: string;
+  number?: string;
+  neighborhood?: string; // bairro
+  city?: string;
+  state?: string; // UF, e.g. "SP"
+  postalCode?: string; // CEP as "00000-000"
+  relevance: number; // 0–1
+}
+
+export interface SavedPlace {
+  id: string;
+  kind: 'home' | 'work' | 'favorite';
+  label: string;
+  address: string;
+  coordinates: Coordinates;
+  updatedAt: number;
+}
+
+export interface Waypoint {
+  id: string;
+  label: string;
+  coordinates: Coordinates;
+  visited?: boolean;
+}
+
+export interface Trip {
+  id: string;
+  origin: PlaceSuggestion;
+  destination: PlaceSuggestion;
+  waypoints: Waypoint[];
+  travelMode: TravelMode;
+  route: Pick<Route, 'distance' | 'duration' | 'hasTolls' | 'hasFerries'>;
+  startedAt: number;
+  endedAt: number;
+  track: [number, number][];
+  trackTimes?: number[]; // epoch ms per track point, as GeoJSON `coordTimes`
+  completed: boolean;
+}
+
+export interface LiveTripUpdate {
+  sessionId: string;
+  location: Coordinates;
+  remainingDistance: number;
+  remainingDuration: number;
+  destinationLabel: string;
+  geometry: [number, number][];
+  timestamp: number;
+  ended: boolean;
+}
+
+export interface AlertVote {
+  alertId: string;
+  voterId: string;
+  vote: 'confirm' | 'dismiss';
+  timestamp: number;
+}
+
+export interface ReporterReputation {
+  reporterId: string;
+  confirmedReports: number;
+  dismissedReports: number;
+}
+
+export interface RouteProgress {
+  stepIndex: number;
+  legIndex: number;
+  snappedLocation: Coordinates;
+  distanceFromRoute: number;
+  distanceToNextManeuver: number;
+  remainingDistance: number;
+  remainingDuration: number;
+  legRemainingDistance: number;
+  legRemainingDuration: number;
+}
+
 export interface NavigationState {
   origin: Coordinates | null;
   destination: Coordinates | null;
+  waypoints: Waypoint[];
   currentLocation: Coordinates | null;
   routes: Route[];
   selectedRoute: Route | null;
   isNavigating: boolean;
+  travelMode: TravelMode;
+  exclusions: RouteExclusion[];
   currentStepIndex: number;
+  progress: RouteProgress | null;
   isDarkMode: boolean;
 }